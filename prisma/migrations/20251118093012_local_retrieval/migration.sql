@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "retrieval_documents" (
+    "id" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "document_type" TEXT NOT NULL,
+    "metadata" JSONB,
+    "embedding_model" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "retrieval_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "retrieval_chunks" (
+    "id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+
+    CONSTRAINT "retrieval_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "retrieval_documents_document_type_idx" ON "retrieval_documents"("document_type");
+
+-- CreateIndex
+CREATE INDEX "retrieval_chunks_document_id_idx" ON "retrieval_chunks"("document_id");
+
+-- AddForeignKey
+ALTER TABLE "retrieval_chunks" ADD CONSTRAINT "retrieval_chunks_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "retrieval_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
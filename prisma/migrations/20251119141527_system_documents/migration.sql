@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "system_documents" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "job_title" TEXT,
+    "version" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "retrieval_id" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "system_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "system_documents_type_job_title_idx" ON "system_documents"("type", "job_title");
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "RubricKind" AS ENUM ('cv', 'project');
+
+-- CreateEnum
+CREATE TYPE "RubricSource" AS ENUM ('manual', 'pdf_import');
+
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN     "cv_rubric_id" TEXT,
+ADD COLUMN     "project_rubric_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "rubrics" (
+    "id" TEXT NOT NULL,
+    "kind" "RubricKind" NOT NULL,
+    "job_title" TEXT,
+    "version" INTEGER NOT NULL,
+    "criteria" JSONB NOT NULL,
+    "source" "RubricSource" NOT NULL DEFAULT 'manual',
+    "source_filename" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rubrics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rubrics_kind_job_title_idx" ON "rubrics"("kind", "job_title");
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_cv_rubric_id_fkey" FOREIGN KEY ("cv_rubric_id") REFERENCES "rubrics"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_project_rubric_id_fkey" FOREIGN KEY ("project_rubric_id") REFERENCES "rubrics"("id") ON DELETE SET NULL ON UPDATE CASCADE;
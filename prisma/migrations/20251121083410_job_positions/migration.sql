@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN     "position_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "job_positions" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "job_description_id" TEXT NOT NULL,
+    "case_study_id" TEXT NOT NULL,
+    "cv_rubric_id" TEXT NOT NULL,
+    "project_rubric_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_positions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "job_positions_title_key" ON "job_positions"("title");
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_position_id_fkey" FOREIGN KEY ("position_id") REFERENCES "job_positions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_positions" ADD CONSTRAINT "job_positions_job_description_id_fkey" FOREIGN KEY ("job_description_id") REFERENCES "system_documents"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_positions" ADD CONSTRAINT "job_positions_case_study_id_fkey" FOREIGN KEY ("case_study_id") REFERENCES "system_documents"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_positions" ADD CONSTRAINT "job_positions_cv_rubric_id_fkey" FOREIGN KEY ("cv_rubric_id") REFERENCES "rubrics"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_positions" ADD CONSTRAINT "job_positions_project_rubric_id_fkey" FOREIGN KEY ("project_rubric_id") REFERENCES "rubrics"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN     "batch_id" TEXT,
+ADD COLUMN     "candidate_label" TEXT;
+
+-- CreateTable
+CREATE TABLE "batches" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "job_title" TEXT NOT NULL,
+    "position_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "jobs_batch_id_idx" ON "jobs"("batch_id");
+
+-- CreateIndex
+CREATE INDEX "batches_user_id_idx" ON "batches"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "batches" ADD CONSTRAINT "batches_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "batches" ADD CONSTRAINT "batches_position_id_fkey" FOREIGN KEY ("position_id") REFERENCES "job_positions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "RunStage" AS ENUM ('cv', 'project', 'overall');
+
+-- CreateTable
+CREATE TABLE "evaluation_runs" (
+    "id" TEXT NOT NULL,
+    "job_id" TEXT NOT NULL,
+    "stage" "RunStage" NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "rubric_id" TEXT,
+    "rubric_version" INTEGER,
+    "prompt_hash" TEXT NOT NULL,
+    "score" DOUBLE PRECISION,
+    "feedback" TEXT NOT NULL,
+    "criteria" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "evaluation_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "evaluation_runs_job_id_stage_idx" ON "evaluation_runs"("job_id", "stage");
+
+-- AddForeignKey
+ALTER TABLE "evaluation_runs" ADD CONSTRAINT "evaluation_runs_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "evaluation_runs" ADD CONSTRAINT "evaluation_runs_rubric_id_fkey" FOREIGN KEY ("rubric_id") REFERENCES "rubrics"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "job_errors" (
+    "id" TEXT NOT NULL,
+    "job_id" TEXT NOT NULL,
+    "stage" "RunStage" NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "is_final" BOOLEAN NOT NULL,
+    "error_class" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "is_retryable" BOOLEAN,
+    "status_code" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "job_errors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_errors_job_id_idx" ON "job_errors"("job_id");
+
+-- AddForeignKey
+ALTER TABLE "job_errors" ADD CONSTRAINT "job_errors_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
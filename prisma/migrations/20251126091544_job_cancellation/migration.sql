@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "JobStatus" ADD VALUE 'cancelled';
+
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN     "flow_job_id" TEXT;
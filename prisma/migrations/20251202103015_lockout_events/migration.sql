@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "LockoutEventType" AS ENUM ('account_locked', 'account_unlocked', 'ip_blocked', 'ip_unblocked');
+
+-- CreateTable
+CREATE TABLE "lockout_events" (
+    "id" TEXT NOT NULL,
+    "type" "LockoutEventType" NOT NULL,
+    "user_id" TEXT,
+    "email" TEXT,
+    "ip_address" TEXT,
+    "failed_attempts" INTEGER,
+    "locked_until" TIMESTAMP(3),
+    "actor_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "lockout_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "lockout_events_user_id_idx" ON "lockout_events"("user_id");
+
+-- CreateIndex
+CREATE INDEX "lockout_events_created_at_idx" ON "lockout_events"("created_at");
@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "retrieval_documents_document_type_idx";
+
+-- AlterTable
+ALTER TABLE "retrieval_documents" ADD COLUMN     "organization_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "retrieval_documents_document_type_organization_id_idx" ON "retrieval_documents"("document_type", "organization_id");
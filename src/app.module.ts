@@ -5,6 +5,8 @@ import { PrismaModule } from './prisma/prisma.module';
 import { AuthModule } from './auth/auth.module';
 import { StorageModule } from './modules/storage/storage.module';
 import { EvaluationsModule } from './modules/evaluations/evaluations.module';
+import { WebhooksModule } from './modules/webhooks/webhooks.module';
+import { OrganizationsModule } from './modules/organizations/organizations.module';
 import { BullModule } from '@nestjs/bullmq';
 
 @Module({
@@ -25,6 +27,8 @@ import { BullModule } from '@nestjs/bullmq';
     // modules
     StorageModule,
     EvaluationsModule,
+    WebhooksModule,
+    OrganizationsModule,
   ],
   controllers: [AppController],
 })
@@ -0,0 +1,105 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/request/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/request/update-api-key.dto';
+import {
+  ApiKeyListResponseDto,
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from './dto/response/api-key-response.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth/api-keys')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create an API key' })
+  @ApiResponse({
+    status: 201,
+    description: 'API key created; the key itself is only shown once',
+    type: CreatedApiKeyResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  createApiKey(
+    @CurrentUser('id') userId: string,
+    @Body() request: CreateApiKeyDto,
+  ): Promise<CreatedApiKeyResponseDto> {
+    return this.apiKeysService.createApiKey(userId, request);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your API keys' })
+  @ApiResponse({
+    status: 200,
+    description: 'API keys retrieved successfully',
+    type: ApiKeyListResponseDto,
+  })
+  listApiKeys(
+    @CurrentUser('id') userId: string,
+  ): Promise<ApiKeyListResponseDto> {
+    return this.apiKeysService.listApiKeys(userId);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Change the label or scopes of an API key' })
+  @ApiResponse({
+    status: 200,
+    description: 'API key updated successfully',
+    type: ApiKeyResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'API key not found',
+  })
+  updateApiKey(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() request: UpdateApiKeyDto,
+  ): Promise<ApiKeyResponseDto> {
+    return this.apiKeysService.updateApiKey(userId, id, request);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiResponse({
+    status: 204,
+    description: 'API key revoked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'API key not found',
+  })
+  async revokeApiKey(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.apiKeysService.revokeApiKey(userId, id);
+  }
+}
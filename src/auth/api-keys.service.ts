@@ -0,0 +1,112 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey, ApiKeyScope } from 'generated/prisma';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateApiKeyDto } from './dto/request/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/request/update-api-key.dto';
+import {
+  ApiKeyListResponseDto,
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from './dto/response/api-key-response.dto';
+
+export const USER_API_KEY_PREFIX = 'cvk_';
+
+/** Keys are random, so an unsalted SHA-256 is enough to look them up safely */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async createApiKey(
+    userId: string,
+    request: CreateApiKeyDto,
+  ): Promise<CreatedApiKeyResponseDto> {
+    const key = `${USER_API_KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        userId,
+        label: request.label.trim(),
+        prefix: key.slice(0, USER_API_KEY_PREFIX.length + 8),
+        keyHash: hashApiKey(key),
+        scopes: request.scopes ?? Object.values(ApiKeyScope),
+      },
+    });
+
+    this.logger.log(`User ${userId} created API key ${apiKey.id}`);
+
+    return { ...this.toResponse(apiKey), key };
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyListResponseDto> {
+    const apiKeys = await this.prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return { apiKeys: apiKeys.map((apiKey) => this.toResponse(apiKey)) };
+  }
+
+  async updateApiKey(
+    userId: string,
+    id: string,
+    request: UpdateApiKeyDto,
+  ): Promise<ApiKeyResponseDto> {
+    await this.findApiKeyOrThrow(userId, id);
+
+    const apiKey = await this.prisma.apiKey.update({
+      where: { id },
+      data: {
+        label: request.label?.trim(),
+        scopes: request.scopes,
+      },
+    });
+
+    return this.toResponse(apiKey);
+  }
+
+  /** Revoked keys stay listed so their last use remains visible */
+  async revokeApiKey(userId: string, id: string): Promise<void> {
+    const apiKey = await this.findApiKeyOrThrow(userId, id);
+    if (apiKey.revokedAt) {
+      return;
+    }
+
+    await this.prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    this.logger.log(`User ${userId} revoked API key ${id}`);
+  }
+
+  private async findApiKeyOrThrow(userId: string, id: string): Promise<ApiKey> {
+    const apiKey = await this.prisma.apiKey.findFirst({
+      where: { id, userId },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException(`API key with ID ${id} not found`);
+    }
+
+    return apiKey;
+  }
+
+  private toResponse(apiKey: ApiKey): ApiKeyResponseDto {
+    return {
+      id: apiKey.id,
+      label: apiKey.label,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
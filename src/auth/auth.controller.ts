@@ -1,16 +1,37 @@
-import { Body, Controller, Get, Post, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiExtraModels,
+  getSchemaPath,
 } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
 import { RegisterDto } from './dto/request/register.dto';
 import { LoginDto } from './dto/request/login.dto';
 import { RefreshTokenDto } from './dto/request/refresh-token.dto';
-import { AuthResponseDto } from './dto/response/auth-response.dto';
+import { VerifyEmailDto } from './dto/request/verify-email.dto';
+import { ForgotPasswordDto } from './dto/request/forgot-password.dto';
+import { ResetPasswordDto } from './dto/request/reset-password.dto';
+import { VerifyTwoFactorDto } from './dto/request/verify-two-factor.dto';
+import { TwoFactorChallengeResponseDto } from './dto/response/two-factor-response.dto';
+import {
+  AuthResponseDto,
+  VerificationRequiredResponseDto,
+} from './dto/response/auth-response.dto';
 import { UserResponseDto } from './dto/response/user-response.dto';
+import { SessionListResponseDto } from './dto/response/session-response.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { CurrentUser } from './decorators/current-user.decorator';
 
@@ -20,11 +41,22 @@ export class AuthController {
   constructor(private authService: AuthService) {}
 
   @Post('register')
-  @ApiOperation({ summary: 'Register a new user' })
+  @ApiOperation({
+    summary: 'Register a new user',
+    description:
+      'Returns the token pair, or only confirms that a verification email was sent when REQUIRE_EMAIL_VERIFICATION is on.',
+  })
+  @ApiExtraModels(AuthResponseDto, VerificationRequiredResponseDto)
   @ApiResponse({
     status: 200,
-    description: 'User successfully registered',
-    type: AuthResponseDto,
+    description:
+      'User successfully registered, and logged in unless the email must be verified first',
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(AuthResponseDto) },
+        { $ref: getSchemaPath(VerificationRequiredResponseDto) },
+      ],
+    },
   })
   @ApiResponse({
     status: 400,
@@ -38,16 +70,31 @@ export class AuthController {
     status: 500,
     description: 'Internal server error',
   })
-  register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto);
+  register(
+    @Body() registerDto: RegisterDto,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.register(registerDto, { userAgent, ipAddress });
   }
 
   @Post('login')
-  @ApiOperation({ summary: 'Login user' })
+  @ApiOperation({
+    summary: 'Login user',
+    description:
+      'Accounts with two-factor authentication get a challenge token instead of the token pair; finish with POST /auth/2fa/verify.',
+  })
+  @ApiExtraModels(AuthResponseDto, TwoFactorChallengeResponseDto)
   @ApiResponse({
     status: 200,
-    description: 'User successfully logged in',
-    type: AuthResponseDto,
+    description:
+      'User successfully logged in, or a challenge when a second factor is required',
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(AuthResponseDto) },
+        { $ref: getSchemaPath(TwoFactorChallengeResponseDto) },
+      ],
+    },
   })
   @ApiResponse({
     status: 400,
@@ -57,16 +104,59 @@ export class AuthController {
     status: 401,
     description: 'Unauthorized - Invalid credentials',
   })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too many requests - Repeated failed logins for this account or address',
+  })
   @ApiResponse({
     status: 500,
     description: 'Internal server error',
   })
-  login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  login(
+    @Body() loginDto: LoginDto,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.login(loginDto, { userAgent, ipAddress });
+  }
+
+  @Post('2fa/verify')
+  @ApiOperation({
+    summary: 'Complete login with a second factor',
+    description:
+      'Send the challenge token from login with an authenticator `code` or a `recoveryCode`.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User successfully logged in',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid challenge token or code',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests - Repeated failed attempts',
+  })
+  verifyTwoFactor(
+    @Body() verifyTwoFactorDto: VerifyTwoFactorDto,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.verifyTwoFactor(verifyTwoFactorDto, {
+      userAgent,
+      ipAddress,
+    });
   }
 
   @Post('refresh')
-  @ApiOperation({ summary: 'Refresh access token' })
+  @ApiOperation({
+    summary: 'Refresh access token',
+    description:
+      'Returns a new token pair. The refresh token sent is used up; sending it again revokes the whole session.',
+  })
   @ApiResponse({
     status: 200,
     description: 'Token successfully refreshed',
@@ -88,6 +178,72 @@ export class AuthController {
     return this.authService.refreshToken(refreshTokenDto);
   }
 
+  @Post('verify-email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Verify email address' })
+  @ApiResponse({
+    status: 204,
+    description: 'Email address verified',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid or expired token',
+  })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    await this.authService.verifyEmail(verifyEmailDto);
+  }
+
+  @Post('verify-email/resend')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Send a new verification email' })
+  @ApiResponse({
+    status: 204,
+    description: 'Verification email sent',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Email already verified',
+  })
+  async resendEmailVerification(@CurrentUser('id') userId: string) {
+    await this.authService.resendEmailVerification(userId);
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Request a password reset email',
+    description:
+      'Always succeeds, so the response does not reveal whether the email is registered.',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Reset email sent if the account exists',
+  })
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.authService.forgotPassword(forgotPasswordDto);
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Reset password',
+    description:
+      'Set a new password with the token from the reset email. All sessions are logged out.',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Password changed',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid or expired token',
+  })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    await this.authService.resetPassword(resetPasswordDto);
+  }
+
   @Get('me')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -108,4 +264,58 @@ export class AuthController {
   getMe(@CurrentUser('id') userId: string) {
     return this.authService.getMe(userId);
   }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Log out of the current session' })
+  @ApiResponse({
+    status: 204,
+    description: 'Session revoked; its refresh and access tokens stop working',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  async logout(@CurrentUser('sessionId') sessionId: string | undefined) {
+    await this.authService.logout(sessionId);
+  }
+
+  @Post('logout-all')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Log out of every session' })
+  @ApiResponse({
+    status: 204,
+    description: 'All sessions of the user revoked',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  async logoutAll(@CurrentUser('id') userId: string) {
+    await this.authService.logoutAll(userId);
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List active sessions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions that can still be refreshed, most recent first',
+    type: SessionListResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  listSessions(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('sessionId') sessionId: string | undefined,
+  ) {
+    return this.authService.listSessions(userId, sessionId);
+  }
 }
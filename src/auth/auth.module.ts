@@ -5,10 +5,22 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { ApiKeysService } from './api-keys.service';
+import { SessionsService } from './sessions.service';
+import { UserTokensService } from './user-tokens.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { LockoutsController } from './lockouts.controller';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import { OidcService } from './oidc.service';
+import { OidcController } from './oidc.controller';
+import { MailModule } from '../modules/mail/mail.module';
+import { ApiKeysController } from './api-keys.controller';
 
 @Module({
   imports: [
     PassportModule,
+    MailModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService) => ({
@@ -20,8 +32,23 @@ import { JwtStrategy } from './strategies/jwt.strategy';
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
+  controllers: [
+    AuthController,
+    ApiKeysController,
+    LockoutsController,
+    TwoFactorController,
+    OidcController,
+  ],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    ApiKeysService,
+    SessionsService,
+    UserTokensService,
+    LoginAttemptsService,
+    TwoFactorService,
+    OidcService,
+  ],
   exports: [AuthService],
 })
 export class AuthModule {}
@@ -1,24 +1,51 @@
 import {
   Injectable,
+  Logger,
   UnauthorizedException,
   ConflictException,
+  ForbiddenException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
 import { JwtService } from '@nestjs/jwt';
+import { User, UserTokenType } from 'generated/prisma';
 import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../modules/mail/mail.service';
 import { RegisterDto } from './dto/request/register.dto';
 import { LoginDto } from './dto/request/login.dto';
 import { RefreshTokenDto } from './dto/request/refresh-token.dto';
+import { VerifyEmailDto } from './dto/request/verify-email.dto';
+import { ForgotPasswordDto } from './dto/request/forgot-password.dto';
+import { ResetPasswordDto } from './dto/request/reset-password.dto';
+import { UserTokensService } from './user-tokens.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { TwoFactorService } from './two-factor.service';
+import { VerifyTwoFactorDto } from './dto/request/verify-two-factor.dto';
 import { JwtPayload } from './dto/jwt-payload.dto';
+import { OidcClaims } from './oidc.service';
+import {
+  IssuedSession,
+  SessionClient,
+  SessionsService,
+} from './sessions.service';
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private prisma: PrismaService,
     private jwt: JwtService,
+    private sessions: SessionsService,
+    private userTokens: UserTokensService,
+    private mail: MailService,
+    private config: ConfigService,
+    private loginAttempts: LoginAttemptsService,
+    private twoFactor: TwoFactorService,
   ) {}
 
-  async register(request: RegisterDto) {
+  async register(request: RegisterDto, client: SessionClient) {
     const existing = await this.prisma.user.findUnique({
       where: { email: request.email },
     });
@@ -37,42 +64,190 @@ export class AuthService {
       },
     });
 
-    return this.generateAuthResponse(user.id, user.email, user.name);
+    await this.sendEmailVerification(user).catch(() =>
+      this.logger.warn(
+        `Verification email for user ${user.id} was not sent; it can be requested again`,
+      ),
+    );
+
+    // No session until the address is verified, as login would refuse one
+    if (this.requiresEmailVerification()) {
+      return { emailVerificationRequired: true as const, email: user.email };
+    }
+
+    return this.generateAuthResponse(
+      user,
+      await this.sessions.createSession(user.id, client),
+    );
   }
 
-  async login(request: LoginDto) {
+  async login(request: LoginDto, client: SessionClient) {
+    await this.loginAttempts.assertAllowed(request.email, client.ipAddress);
+
     const user = await this.prisma.user.findUnique({
       where: { email: request.email },
     });
 
-    if (!user) throw new UnauthorizedException('Invalid credentials');
+    const valid =
+      !!user && (await bcrypt.compare(request.password, user.password));
+    if (!user || !valid) {
+      await this.loginAttempts.recordFailure(
+        request.email,
+        client.ipAddress,
+        user?.id,
+      );
+      throw new UnauthorizedException('Invalid credentials');
+    }
 
-    const valid = await bcrypt.compare(request.password, user.password);
-    if (!valid) throw new UnauthorizedException('Invalid credentials');
+    await this.loginAttempts.recordSuccess(request.email);
 
-    return this.generateAuthResponse(user.id, user.email, user.name);
+    return this.completeLogin(user, client);
   }
 
-  async refreshToken(request: RefreshTokenDto) {
+  /**
+   * Log in with identity provider claims. Accounts are found by subject,
+   * linked by verified email on first use, or created.
+   */
+  async loginWithOidc(claims: OidcClaims, client: SessionClient) {
+    const user =
+      (await this.prisma.user.findUnique({
+        where: { oidcSubject: claims.sub },
+      })) ?? (await this.linkOrProvisionOidcUser(claims));
+
+    return this.completeLogin(user, client);
+  }
+
+  /** Finish a login that returned a two-factor challenge */
+  async verifyTwoFactor(request: VerifyTwoFactorDto, client: SessionClient) {
+    let payload: JwtPayload;
     try {
-      const payload = this.jwt.verify<JwtPayload>(request.refreshToken);
+      payload = this.jwt.verify<JwtPayload>(request.challengeToken);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
 
-      if (payload.type !== 'refresh') {
-        throw new UnauthorizedException('Invalid token type');
-      }
+    if (payload.type !== 'two_factor') {
+      throw new UnauthorizedException('Invalid token type');
+    }
 
-      const user = await this.prisma.user.findUnique({
-        where: { id: payload.sub },
-      });
+    const user = await this.prisma.user.findUnique({
+      where: { id: payload.sub },
+    });
 
-      if (!user) {
-        throw new UnauthorizedException('User not found');
-      }
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
 
-      return this.generateAuthResponse(user.id, user.email, user.name);
-    } catch {
-      throw new UnauthorizedException('Invalid refresh token');
+    await this.loginAttempts.assertAllowed(user.email, client.ipAddress);
+
+    if (!(await this.twoFactor.verifySecondFactor(user, request))) {
+      await this.loginAttempts.recordFailure(
+        user.email,
+        client.ipAddress,
+        user.id,
+      );
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.loginAttempts.recordSuccess(user.email);
+
+    return this.generateAuthResponse(
+      user,
+      await this.sessions.createSession(user.id, client),
+    );
+  }
+
+  async refreshToken(request: RefreshTokenDto) {
+    const session = await this.sessions.rotate(request.refreshToken);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: session.userId },
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    return this.generateAuthResponse(user, session);
+  }
+
+  async logout(sessionId: string | undefined) {
+    if (sessionId) {
+      await this.sessions.revokeSession(sessionId);
+    }
+  }
+
+  async logoutAll(userId: string) {
+    await this.sessions.revokeAllSessions(userId);
+  }
+
+  listSessions(userId: string, sessionId: string | undefined) {
+    return this.sessions.listSessions(userId, sessionId);
+  }
+
+  async resendEmailVerification(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found');
     }
+    if (user.emailVerifiedAt) {
+      throw new ConflictException('Email already verified');
+    }
+
+    await this.sendEmailVerification(user);
+  }
+
+  async verifyEmail(request: VerifyEmailDto) {
+    const userId = await this.userTokens.consume(
+      request.token,
+      UserTokenType.EMAIL_VERIFICATION,
+    );
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+  }
+
+  /**
+   * Email a reset link if the account exists. Unknown addresses and delivery
+   * failures are not reported, so the response does not reveal accounts.
+   */
+  async forgotPassword(request: ForgotPasswordDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { email: request.email },
+    });
+
+    if (!user) {
+      return;
+    }
+
+    const token = await this.userTokens.issue(
+      user.id,
+      UserTokenType.PASSWORD_RESET,
+    );
+    await this.mail
+      .sendPasswordReset(user, token)
+      .catch(() =>
+        this.logger.warn(`Password reset email for user ${user.id} failed`),
+      );
+  }
+
+  /** Set a new password and end every session of the account */
+  async resetPassword(request: ResetPasswordDto) {
+    const userId = await this.userTokens.consume(
+      request.token,
+      UserTokenType.PASSWORD_RESET,
+    );
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { password: await bcrypt.hash(request.password, 10) },
+    });
+    await this.sessions.revokeAllSessions(userId);
+
+    this.logger.log(`Password reset for user ${userId}`);
   }
 
   async getMe(userId: string) {
@@ -82,6 +257,9 @@ export class AuthService {
         id: true,
         email: true,
         name: true,
+        role: true,
+        emailVerifiedAt: true,
+        totpEnabledAt: true,
         createdAt: true,
       },
     });
@@ -90,26 +268,116 @@ export class AuthService {
       throw new UnauthorizedException('User not found');
     }
 
+    const { totpEnabledAt, ...profile } = user;
+    return { ...profile, twoFactorEnabled: !!totpEnabledAt };
+  }
+
+  private async linkOrProvisionOidcUser(claims: OidcClaims) {
+    if (!claims.email) {
+      throw new UnauthorizedException(
+        'Identity provider did not share an email address',
+      );
+    }
+
+    const existing = await this.prisma.user.findUnique({
+      where: { email: claims.email },
+    });
+
+    if (existing) {
+      if (existing.oidcSubject) {
+        throw new ConflictException('Account is linked to another identity');
+      }
+      if (claims.email_verified !== true) {
+        throw new ForbiddenException(
+          'Email address is not verified by the identity provider',
+        );
+      }
+
+      this.logger.log(`Linked user ${existing.id} to OIDC subject`);
+      return this.prisma.user.update({
+        where: { id: existing.id },
+        data: {
+          oidcSubject: claims.sub,
+          emailVerifiedAt: existing.emailVerifiedAt ?? new Date(),
+        },
+      });
+    }
+
+    // No usable password; one can be set through forgot-password
+    const passwordHashed = await bcrypt.hash(
+      randomBytes(32).toString('base64url'),
+      10,
+    );
+
+    const user = await this.prisma.user.create({
+      data: {
+        name: claims.name || claims.email,
+        email: claims.email,
+        password: passwordHashed,
+        oidcSubject: claims.sub,
+        emailVerifiedAt: claims.email_verified === true ? new Date() : null,
+      },
+    });
+
+    this.logger.log(`Provisioned user ${user.id} from OIDC login`);
     return user;
   }
 
-  private generateAuthResponse(id: string, email: string, name: string) {
+  /** Apply the checks that follow a successful first factor */
+  private async completeLogin(user: User, client: SessionClient) {
+    if (!user.emailVerifiedAt && this.requiresEmailVerification()) {
+      throw new ForbiddenException('Email address is not verified');
+    }
+
+    if (user.totpEnabledAt) {
+      return this.generateTwoFactorChallenge(user);
+    }
+
+    return this.generateAuthResponse(
+      user,
+      await this.sessions.createSession(user.id, client),
+    );
+  }
+
+  private requiresEmailVerification(): boolean {
+    return this.config.get<string>('REQUIRE_EMAIL_VERIFICATION') === 'true';
+  }
+
+  private async sendEmailVerification(user: User) {
+    const token = await this.userTokens.issue(
+      user.id,
+      UserTokenType.EMAIL_VERIFICATION,
+    );
+    await this.mail.sendEmailVerification(user, token);
+  }
+
+  private generateTwoFactorChallenge({ id, email }: User) {
+    const expiresIn = 300;
+
+    return {
+      twoFactorRequired: true as const,
+      challengeToken: this.jwt.sign(
+        { sub: id, email, type: 'two_factor' },
+        { expiresIn },
+      ),
+      expiresIn,
+    };
+  }
+
+  private generateAuthResponse(
+    { id, email, name }: { id: string; email: string; name: string },
+    session: IssuedSession,
+  ) {
     const accessTokenExpiresIn = 3600;
-    const refreshTokenExpiresIn = 3600 * 7;
 
     const accessToken = this.jwt.sign(
-      { sub: id, email, type: 'access' },
+      { sub: id, email, type: 'access', sid: session.sessionId },
       { expiresIn: accessTokenExpiresIn },
     );
 
-    const refreshToken = this.jwt.sign(
-      { sub: id, type: 'refresh' },
-      { expiresIn: refreshTokenExpiresIn },
-    );
-
     return {
       accessToken,
-      refreshToken,
+      refreshToken: session.refreshToken,
       tokenType: 'Bearer',
       expiresIn: accessTokenExpiresIn,
       user: {
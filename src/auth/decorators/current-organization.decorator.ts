@@ -0,0 +1,14 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { RequestWithMembership } from '../guards/organization.guard';
+
+/**
+ * Organization resolved for the request, or null for platform-wide access
+ * with the API key
+ */
+export const CurrentOrganization = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): string | null => {
+    const request = ctx.switchToHttp().getRequest<RequestWithMembership>();
+
+    return request.membership?.organizationId ?? null;
+  },
+);
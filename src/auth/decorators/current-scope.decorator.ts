@@ -0,0 +1,18 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { OwnerScope } from '../../common/utils/owner-scope.util';
+import type { RequestWithMembership } from '../guards/organization.guard';
+
+/**
+ * Workspace of the request: the organization resolved by
+ * `OrganizationGuard`, or the user's personal workspace
+ */
+export const CurrentScope = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): OwnerScope => {
+    const request = ctx.switchToHttp().getRequest<RequestWithMembership>();
+
+    return {
+      userId: request.user!.id,
+      organizationId: request.membership?.organizationId,
+    };
+  },
+);
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { OrgRole } from 'generated/prisma';
+
+export const ORG_ROLES_KEY = 'orgRoles';
+
+/**
+ * Organization roles allowed on a route when it is called in an
+ * organization's context. Personal requests are not affected.
+ */
+export const OrgRoles = (...roles: OrgRole[]) =>
+  SetMetadata(ORG_ROLES_KEY, roles);
@@ -0,0 +1,18 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import {
+  OWNED_RESOURCE_KEY,
+  OwnedResourceType,
+  ResourceOwnershipGuard,
+} from '../guards/resource-ownership.guard';
+
+export { OwnedResourceType };
+
+/**
+ * Restrict a route to the owner of the resource named by a route parameter.
+ * Admins may access any resource. Must be applied after authentication.
+ */
+export const OwnedResource = (type: OwnedResourceType, param = 'id') =>
+  applyDecorators(
+    SetMetadata(OWNED_RESOURCE_KEY, { type, param }),
+    UseGuards(ResourceOwnershipGuard),
+  );
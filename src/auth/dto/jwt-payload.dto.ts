@@ -1,7 +1,9 @@
 export interface JwtPayload {
   sub: string;
   email: string;
-  type: 'access' | 'refresh';
+  type: 'access' | 'refresh' | 'two_factor';
+  /** Session the token was issued for */
+  sid?: string;
   iat?: number;
   exp?: number;
 }
@@ -0,0 +1,35 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from 'generated/prisma';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    example: 'ATS production',
+    description: 'Label to recognize the key by',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  label: string;
+
+  @ApiProperty({
+    enum: ApiKeyScope,
+    isArray: true,
+    required: false,
+    description:
+      '`read` allows GET requests, `write` everything else. Defaults to both.',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  @IsOptional()
+  scopes?: ApiKeyScope[];
+}
@@ -0,0 +1,11 @@
+import { Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class EnableTwoFactorDto {
+  @ApiProperty({
+    example: '123456',
+    description: 'Current code from the authenticator app',
+  })
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code: string;
+}
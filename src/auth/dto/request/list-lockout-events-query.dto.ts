@@ -0,0 +1,37 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { LockoutEventType } from 'generated/prisma';
+
+export class ListLockoutEventsQueryDto {
+  @ApiProperty({
+    enum: LockoutEventType,
+    required: false,
+    description: 'Filter by event type',
+  })
+  @IsEnum(LockoutEventType)
+  @IsOptional()
+  type?: LockoutEventType;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'Filter by user',
+  })
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+
+  @ApiProperty({
+    example: 50,
+    default: 50,
+    required: false,
+    description: 'Number of most recent events to return',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
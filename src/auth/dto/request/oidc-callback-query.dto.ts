@@ -0,0 +1,36 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class OidcCallbackQueryDto {
+  @ApiProperty({
+    example: 'SplxlOBeZQQYbYS6WxSbIA',
+    description: 'Authorization code from the identity provider',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  code?: string;
+
+  @ApiProperty({
+    example: 'af0ifjsldkj',
+    description: 'State issued by GET /auth/oidc/login',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  state?: string;
+
+  @ApiProperty({
+    example: 'access_denied',
+    description: 'Set by the identity provider when the login failed',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  error?: string;
+
+  @ApiProperty({ required: false })
+  @IsString()
+  @IsOptional()
+  error_description?: string;
+}
@@ -3,8 +3,8 @@ import { ApiProperty } from '@nestjs/swagger';
 
 export class RefreshTokenDto {
   @ApiProperty({
-    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
-    description: 'JWT refresh token',
+    example: 'q3V9sF0bXk2...',
+    description: 'Refresh token from the last login or refresh',
   })
   @IsNotEmpty()
   @IsString()
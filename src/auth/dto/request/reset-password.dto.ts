@@ -0,0 +1,21 @@
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResetPasswordDto {
+  @ApiProperty({
+    example: 'Qm9vdHN0cmFwIHRva2Vu...',
+    description: 'Token from the password reset email',
+  })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+
+  @ApiProperty({
+    example: 'newpassword123',
+    description: 'New password (minimum 8 characters)',
+    minLength: 8,
+  })
+  @IsString()
+  @MinLength(8)
+  password: string;
+}
@@ -0,0 +1,22 @@
+import { IsOptional, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SecondFactorDto {
+  @ApiProperty({
+    example: '123456',
+    description: 'Current code from the authenticator app',
+    required: false,
+  })
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  @IsOptional()
+  code?: string;
+
+  @ApiProperty({
+    example: '4f1c-9a2e-b7',
+    description: 'Unused recovery code, instead of `code`',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  recoveryCode?: string;
+}
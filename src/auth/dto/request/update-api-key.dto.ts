@@ -0,0 +1,36 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from 'generated/prisma';
+
+export class UpdateApiKeyDto {
+  @ApiProperty({
+    example: 'ATS staging',
+    description: 'New label',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  label?: string;
+
+  @ApiProperty({
+    enum: ApiKeyScope,
+    isArray: true,
+    required: false,
+    description: 'New scopes',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  @IsOptional()
+  scopes?: ApiKeyScope[];
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyEmailDto {
+  @ApiProperty({
+    example: 'Qm9vdHN0cmFwIHRva2Vu...',
+    description: 'Token from the verification email',
+  })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+}
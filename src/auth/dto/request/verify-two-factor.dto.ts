@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { SecondFactorDto } from './second-factor.dto';
+
+export class VerifyTwoFactorDto extends SecondFactorDto {
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'Challenge token returned by login',
+  })
+  @IsNotEmpty()
+  @IsString()
+  challengeToken: string;
+}
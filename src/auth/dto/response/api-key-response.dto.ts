@@ -0,0 +1,59 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from 'generated/prisma';
+
+export class ApiKeyResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'API key ID',
+  })
+  id: string;
+
+  @ApiProperty({
+    example: 'ATS production',
+    description: 'Label',
+  })
+  label: string;
+
+  @ApiProperty({
+    example: 'cvk_3f9a1c2b',
+    description: 'First characters of the key, to tell keys apart',
+  })
+  prefix: string;
+
+  @ApiProperty({ enum: ApiKeyScope, isArray: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({
+    example: '2025-11-16T10:30:00.000Z',
+    description: 'Last time the key authenticated a request',
+    nullable: true,
+  })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({
+    example: null,
+    description: 'When the key was revoked; revoked keys are rejected',
+    nullable: true,
+  })
+  revokedAt: Date | null;
+
+  @ApiProperty({
+    example: '2025-11-16T10:00:00.000Z',
+    description: 'Key creation timestamp',
+  })
+  createdAt: Date;
+}
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    example: 'cvk_3f9a1c2b...',
+    description:
+      'The API key. Only returned when the key is created; send it as `X-API-Key`.',
+  })
+  key: string;
+}
+
+export class ApiKeyListResponseDto {
+  @ApiProperty({ type: [ApiKeyResponseDto] })
+  apiKeys: ApiKeyResponseDto[];
+}
@@ -8,8 +8,9 @@ export class AuthResponseDto {
   accessToken: string;
 
   @ApiProperty({
-    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
-    description: 'JWT refresh token',
+    example: 'q3V9sF0bXk2...',
+    description:
+      'Refresh token. Each one can be used once; refreshing returns a new one.',
   })
   refreshToken: string;
 
@@ -39,3 +40,18 @@ export class AuthResponseDto {
     name: string;
   };
 }
+
+export class VerificationRequiredResponseDto {
+  @ApiProperty({
+    example: true,
+    description:
+      'The account was created but can only log in once the email address is verified',
+  })
+  emailVerificationRequired: true;
+
+  @ApiProperty({
+    example: 'user@example.com',
+    description: 'Address the verification link was sent to',
+  })
+  email: string;
+}
@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { LockoutEventType } from 'generated/prisma';
+
+export class LockoutEventResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Event ID',
+  })
+  id: string;
+
+  @ApiProperty({
+    enum: LockoutEventType,
+    example: LockoutEventType.ACCOUNT_LOCKED,
+  })
+  type: LockoutEventType;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174001',
+    description: 'Affected user, when the email belongs to an account',
+    nullable: true,
+  })
+  userId: string | null;
+
+  @ApiProperty({ example: 'user@example.com', nullable: true })
+  email: string | null;
+
+  @ApiProperty({ example: '203.0.113.7', nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty({
+    example: 10,
+    description: 'Failed attempts that triggered the lock',
+    nullable: true,
+  })
+  failedAttempts: number | null;
+
+  @ApiProperty({ example: '2025-11-16T10:15:00.000Z', nullable: true })
+  lockedUntil: Date | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174002',
+    description: 'Admin who lifted the lock',
+    nullable: true,
+  })
+  actorId: string | null;
+
+  @ApiProperty({ example: '2025-11-16T10:00:00.000Z' })
+  createdAt: Date;
+}
+
+export class LockoutEventListResponseDto {
+  @ApiProperty({ type: [LockoutEventResponseDto] })
+  events: LockoutEventResponseDto[];
+}
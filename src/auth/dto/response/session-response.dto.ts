@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Session ID',
+  })
+  id: string;
+
+  @ApiProperty({
+    example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0)',
+    description: 'User agent that logged in',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({
+    example: '203.0.113.7',
+    description: 'IP address that logged in',
+    nullable: true,
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({
+    example: '2025-11-16T10:00:00.000Z',
+    description: 'Login timestamp',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    example: '2025-11-16T12:00:00.000Z',
+    description: 'Last token refresh',
+  })
+  lastUsedAt: Date;
+
+  @ApiProperty({
+    example: '2025-11-16T19:00:00.000Z',
+    description: 'When the session ends unless refreshed',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    example: true,
+    description: 'Whether this is the session of the calling token',
+  })
+  current: boolean;
+}
+
+export class SessionListResponseDto {
+  @ApiProperty({ type: [SessionResponseDto] })
+  sessions: SessionResponseDto[];
+}
@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorSetupResponseDto {
+  @ApiProperty({
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+    description: 'Base32 secret for manual entry',
+  })
+  secret: string;
+
+  @ApiProperty({
+    example:
+      'otpauth://totp/CV%20Evaluation%3Auser%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=CV+Evaluation',
+    description: 'Enrolment URI, usually rendered as a QR code',
+  })
+  otpauthUrl: string;
+}
+
+export class RecoveryCodesResponseDto {
+  @ApiProperty({
+    example: ['4f1c-9a2e-b7', '0d8b-33fa-c1'],
+    description:
+      'Single-use codes for when the authenticator is unavailable. Only shown once.',
+  })
+  recoveryCodes: string[];
+}
+
+export class TwoFactorChallengeResponseDto {
+  @ApiProperty({
+    example: true,
+    description: 'The account needs a second factor to finish logging in',
+  })
+  twoFactorRequired: true;
+
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'Send with the code to POST /auth/2fa/verify',
+  })
+  challengeToken: string;
+
+  @ApiProperty({
+    example: 300,
+    description: 'Challenge token expiration time in seconds',
+  })
+  expiresIn: number;
+}
@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from 'generated/prisma';
 
 export class UserResponseDto {
   @ApiProperty({
@@ -19,6 +20,26 @@ export class UserResponseDto {
   })
   name: string;
 
+  @ApiProperty({
+    enum: UserRole,
+    example: UserRole.USER,
+    description: 'Role; admins can read every resource',
+  })
+  role: UserRole;
+
+  @ApiProperty({
+    example: '2025-11-16T10:05:00.000Z',
+    description: 'When the email address was verified',
+    nullable: true,
+  })
+  emailVerifiedAt: Date | null;
+
+  @ApiProperty({
+    example: false,
+    description: 'Whether login requires a second factor',
+  })
+  twoFactorEnabled: boolean;
+
   @ApiProperty({
     example: '2025-11-16T10:00:00.000Z',
     description: 'Account creation timestamp',
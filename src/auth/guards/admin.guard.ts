@@ -0,0 +1,26 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { UserRole } from 'generated/prisma';
+
+interface RequestWithUser extends Request {
+  user?: { role: UserRole };
+}
+
+/** Platform administrators only. Must run after authentication. */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<RequestWithUser>();
+
+    if (request.user?.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('This action requires the admin role');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { Membership, OrgRole } from 'generated/prisma';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ORG_ROLES_KEY } from '../decorators/org-roles.decorator';
+
+export const ORGANIZATION_HEADER = 'x-organization-id';
+
+export interface RequestWithMembership extends Request {
+  user?: { id: string };
+  membership?: Membership;
+}
+
+/**
+ * Resolves the organization named by the `X-Organization-Id` header and
+ * checks the caller's membership and role. Requests without the header act
+ * in the caller's personal workspace. Must run after authentication.
+ */
+@Injectable()
+export class OrganizationGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<RequestWithMembership>();
+    if (!request.headers[ORGANIZATION_HEADER]) {
+      return true;
+    }
+
+    const roles = this.reflector.getAllAndOverride<OrgRole[] | undefined>(
+      ORG_ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    return this.authorize(request, roles);
+  }
+
+  /** Attach the caller's membership to the request if it has one of `roles` */
+  async authorize(
+    request: RequestWithMembership,
+    roles?: OrgRole[],
+  ): Promise<boolean> {
+    const organizationId = request.headers[ORGANIZATION_HEADER];
+    if (typeof organizationId !== 'string' || !request.user) {
+      throw new ForbiddenException('An organization context is required');
+    }
+
+    const membership = await this.prisma.membership.findUnique({
+      where: {
+        organizationId_userId: { organizationId, userId: request.user.id },
+      },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException(
+        `You are not a member of organization ${organizationId}`,
+      );
+    }
+    if (roles?.length && !roles.includes(membership.role)) {
+      throw new ForbiddenException(
+        `This action requires one of the organization roles: ${roles.join(', ')}`,
+      );
+    }
+
+    request.membership = membership;
+    return true;
+  }
+}
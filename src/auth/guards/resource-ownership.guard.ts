@@ -0,0 +1,121 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { OrgRole, UserRole } from 'generated/prisma';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ORG_ROLES_KEY } from '../decorators/org-roles.decorator';
+
+export enum OwnedResourceType {
+  JOB = 'job',
+  FILE = 'file',
+  BATCH = 'batch',
+}
+
+export interface OwnedResourceOptions {
+  type: OwnedResourceType;
+  /** Route parameter holding the resource ID */
+  param: string;
+}
+
+export const OWNED_RESOURCE_KEY = 'ownedResource';
+
+interface RequestWithUser extends Request {
+  user?: { id: string; role: UserRole };
+}
+
+const RESOURCE_NAMES: Record<OwnedResourceType, string> = {
+  [OwnedResourceType.JOB]: 'Job',
+  [OwnedResourceType.FILE]: 'File',
+  [OwnedResourceType.BATCH]: 'Batch',
+};
+
+/**
+ * Allows a request only when the authenticated user owns the resource set by
+ * `@OwnedResource`, or belongs to the organization that owns it with a role
+ * allowed by `@OrgRoles`. Resources the user cannot see are reported as not
+ * found so their IDs cannot be probed.
+ */
+@Injectable()
+export class ResourceOwnershipGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const resource = this.reflector.getAllAndOverride<OwnedResourceOptions>(
+      OWNED_RESOURCE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!resource) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<RequestWithUser>();
+    const id = request.params[resource.param];
+    const owner = await this.findOwner(resource.type, id);
+    const notFound = new NotFoundException(
+      `${RESOURCE_NAMES[resource.type]} with ID ${id} not found`,
+    );
+
+    if (!owner || !request.user) {
+      throw notFound;
+    }
+    if (request.user.role === UserRole.ADMIN) {
+      return true;
+    }
+    if (!owner.organizationId) {
+      if (owner.userId !== request.user.id) {
+        throw notFound;
+      }
+      return true;
+    }
+
+    const membership = await this.prisma.membership.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: owner.organizationId,
+          userId: request.user.id,
+        },
+      },
+    });
+    if (!membership) {
+      throw notFound;
+    }
+
+    const roles = this.reflector.getAllAndOverride<OrgRole[] | undefined>(
+      ORG_ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (roles?.length && !roles.includes(membership.role)) {
+      throw new ForbiddenException(
+        `This action requires one of the organization roles: ${roles.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+
+  private async findOwner(
+    type: OwnedResourceType,
+    id: string,
+  ): Promise<{ userId: string; organizationId: string | null } | null> {
+    const where = { id };
+    const select = { userId: true, organizationId: true };
+
+    switch (type) {
+      case OwnedResourceType.JOB:
+        return this.prisma.job.findUnique({ where, select });
+      case OwnedResourceType.FILE:
+        return this.prisma.file.findUnique({ where, select });
+      case OwnedResourceType.BATCH:
+        return this.prisma.batch.findUnique({ where, select });
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { OrgRole } from 'generated/prisma';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ApiKeyGuard } from './api-key.guard';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import {
+  ORGANIZATION_HEADER,
+  OrganizationGuard,
+  RequestWithMembership,
+} from './organization.guard';
+
+/**
+ * Internal routes open to the platform API key, or to organization admins
+ * with a JWT and `X-Organization-Id`. Admins act on their organization's
+ * records only.
+ */
+@Injectable()
+export class SystemAccessGuard implements CanActivate {
+  private readonly apiKeyGuard: ApiKeyGuard;
+  private readonly jwtGuard = new JwtAuthGuard();
+  private readonly organizationGuard: OrganizationGuard;
+
+  constructor(
+    configService: ConfigService,
+    reflector: Reflector,
+    prisma: PrismaService,
+  ) {
+    this.apiKeyGuard = new ApiKeyGuard(configService);
+    this.organizationGuard = new OrganizationGuard(reflector, prisma);
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<RequestWithMembership>();
+
+    if (request.headers['x-api-key']) {
+      return this.apiKeyGuard.canActivate(context);
+    }
+
+    await (this.jwtGuard.canActivate(context) as Promise<boolean>);
+    if (!request.headers[ORGANIZATION_HEADER]) {
+      throw new ForbiddenException(
+        'Use the API key, or an organization admin token with X-Organization-Id',
+      );
+    }
+
+    return this.organizationGuard.authorize(request, [OrgRole.ADMIN]);
+  }
+}
@@ -0,0 +1,77 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { ApiKeyScope } from 'generated/prisma';
+import { PrismaService } from '../../prisma/prisma.service';
+import { hashApiKey } from '../api-keys.service';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * Authenticates a user by JWT, or by one of their API keys sent as
+ * `X-API-Key`. Keys with only the `read` scope are limited to GET requests.
+ */
+@Injectable()
+export class UserAuthGuard implements CanActivate {
+  private readonly jwtGuard = new JwtAuthGuard();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const key = request.headers['x-api-key'];
+
+    if (!key) {
+      return this.jwtGuard.canActivate(context) as Promise<boolean>;
+    }
+    if (typeof key !== 'string') {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: hashApiKey(key) },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            role: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!apiKey || apiKey.revokedAt) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const scope =
+      request.method === 'GET' ? ApiKeyScope.READ : ApiKeyScope.WRITE;
+    if (!apiKey.scopes.includes(scope)) {
+      throw new ForbiddenException(`API key lacks the ${scope} scope`);
+    }
+
+    // Last use is tracked to the minute so busy keys do not write on every request
+    const stale = new Date(Date.now() - LAST_USED_RESOLUTION_MS);
+    if (!apiKey.lastUsedAt || apiKey.lastUsedAt < stale) {
+      await this.prisma.apiKey.updateMany({
+        where: {
+          id: apiKey.id,
+          OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: stale } }],
+        },
+        data: { lastUsedAt: new Date() },
+      });
+    }
+
+    request.user = apiKey.user;
+    return true;
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { LoginAttemptsService } from './login-attempts.service';
+import { ListLockoutEventsQueryDto } from './dto/request/list-lockout-events-query.dto';
+import { LockoutEventListResponseDto } from './dto/response/lockout-event-response.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { AdminGuard } from './guards/admin.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+
+@ApiTags('Authentication')
+@Controller('admin')
+@UseGuards(JwtAuthGuard, AdminGuard)
+@ApiBearerAuth()
+export class LockoutsController {
+  constructor(private readonly loginAttempts: LoginAttemptsService) {}
+
+  @Get('lockouts')
+  @ApiOperation({ summary: 'List lockout events, most recent first' })
+  @ApiResponse({
+    status: 200,
+    description: 'Lockout events retrieved successfully',
+    type: LockoutEventListResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Requires the admin role',
+  })
+  listLockouts(
+    @Query() query: ListLockoutEventsQueryDto,
+  ): Promise<LockoutEventListResponseDto> {
+    return this.loginAttempts.listEvents(query);
+  }
+
+  @Delete('users/:id/lockout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Unlock an account' })
+  @ApiResponse({
+    status: 204,
+    description: 'Lock and failed-attempt count cleared',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Requires the admin role',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+  })
+  async unlockAccount(
+    @CurrentUser('id') actorId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.loginAttempts.unlockAccount(id, actorId);
+  }
+
+  @Delete('ip-blocks/:ip')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Unblock an IP address' })
+  @ApiResponse({
+    status: 204,
+    description: 'Block and failed-attempt count cleared',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Requires the admin role',
+  })
+  async unblockIp(
+    @CurrentUser('id') actorId: string,
+    @Param('ip') ipAddress: string,
+  ): Promise<void> {
+    await this.loginAttempts.unblockIp(ipAddress, actorId);
+  }
+}
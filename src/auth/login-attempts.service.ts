@@ -0,0 +1,256 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { LockoutEventType } from 'generated/prisma';
+import { PrismaService } from '../prisma/prisma.service';
+import { ListLockoutEventsQueryDto } from './dto/request/list-lockout-events-query.dto';
+import { LockoutEventListResponseDto } from './dto/response/lockout-event-response.dto';
+
+/**
+ * Checks and counts a login attempt in one step: refuses it while the IP
+ * address is blocked or the account is locked or waiting, otherwise counts
+ * it and, from the third attempt, makes the next one wait a delay that
+ * doubles each time. Running as one script keeps parallel attempts from
+ * passing the same check.
+ *
+ * KEYS: ip-block (empty without an IP), lock, delay, fail
+ * ARGV: window seconds, attempts before delays, maximum delay seconds
+ * Returns: [0, attempts] when allowed, or [1 ip | 2 lock | 3 delay, ttl ms]
+ */
+const ATTEMPT_SCRIPT = `
+if KEYS[1] ~= '' then
+  local blocked = redis.call('PTTL', KEYS[1])
+  if blocked > 0 then return {1, blocked} end
+end
+local locked = redis.call('PTTL', KEYS[2])
+if locked > 0 then return {2, locked} end
+local delayed = redis.call('PTTL', KEYS[3])
+if delayed > 0 then return {3, delayed} end
+
+local attempts = redis.call('INCR', KEYS[4])
+redis.call('EXPIRE', KEYS[4], ARGV[1])
+local delayAfter = tonumber(ARGV[2])
+if attempts >= delayAfter then
+  local delay = math.min(2 ^ (attempts - delayAfter), tonumber(ARGV[3]))
+  redis.call('SET', KEYS[3], '1', 'EX', delay)
+end
+return {0, attempts}
+`;
+
+/**
+ * Failed-login tracking in Redis, per account and per IP address.
+ *
+ * Attempts on an account are counted before the password is checked. From
+ * the third one each further attempt has to wait twice as long as the
+ * previous one; at ten failures the account is locked. An IP address with
+ * fifty failures across any accounts is blocked. Counters reset once fifteen
+ * minutes pass without an attempt, or on a successful login.
+ */
+@Injectable()
+export class LoginAttemptsService implements OnModuleDestroy {
+  private readonly logger = new Logger(LoginAttemptsService.name);
+  private readonly redis: Redis;
+  private readonly WINDOW_SECONDS = 900;
+  private readonly LOCK_SECONDS = 900;
+  private readonly DELAY_AFTER = 3;
+  private readonly MAX_DELAY_SECONDS = 60;
+  private readonly ACCOUNT_LOCK_AFTER = 10;
+  private readonly IP_BLOCK_AFTER = 50;
+
+  constructor(
+    configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {
+    this.redis = new Redis(
+      configService.get<string>('REDIS_URL', 'redis://localhost:6379'),
+    );
+  }
+
+  async onModuleDestroy() {
+    await this.redis.quit();
+  }
+
+  /**
+   * Refuse the attempt while the IP is blocked or the account must wait,
+   * otherwise count it against the account
+   */
+  async assertAllowed(email: string, ipAddress?: string): Promise<void> {
+    const account = this.normalize(email);
+    const [refusal, retryAfterMs] = (await this.redis.eval(
+      ATTEMPT_SCRIPT,
+      4,
+      ipAddress ? this.key('ip-block', ipAddress) : '',
+      this.key('lock', account),
+      this.key('delay', account),
+      this.key('fail', account),
+      this.WINDOW_SECONDS,
+      this.DELAY_AFTER,
+      this.MAX_DELAY_SECONDS,
+    )) as [number, number];
+
+    switch (refusal) {
+      case 1:
+        throw this.tooManyAttempts(
+          'Too many failed logins from this address',
+          retryAfterMs,
+        );
+      case 2:
+        throw this.tooManyAttempts(
+          'Account temporarily locked after repeated failed logins',
+          retryAfterMs,
+        );
+      case 3:
+        throw this.tooManyAttempts('Too many failed logins', retryAfterMs);
+    }
+  }
+
+  async recordFailure(
+    email: string,
+    ipAddress: string | undefined,
+    userId: string | undefined,
+  ): Promise<void> {
+    const account = this.normalize(email);
+    // Counted by assertAllowed; reaching here means the attempt failed
+    const failures = Number(await this.redis.get(this.key('fail', account)));
+
+    // NX so parallel failures lock and audit once
+    if (
+      failures >= this.ACCOUNT_LOCK_AFTER &&
+      (await this.redis.set(
+        this.key('lock', account),
+        '1',
+        'EX',
+        this.LOCK_SECONDS,
+        'NX',
+      ))
+    ) {
+      await this.redis.del(
+        this.key('fail', account),
+        this.key('delay', account),
+      );
+      await this.audit(LockoutEventType.ACCOUNT_LOCKED, {
+        userId,
+        email: account,
+        ipAddress,
+        failedAttempts: failures,
+        lockedUntil: new Date(Date.now() + this.LOCK_SECONDS * 1000),
+      });
+      this.logger.warn(`Locked account ${account} after ${failures} failures`);
+    }
+
+    if (!ipAddress) {
+      return;
+    }
+
+    const ipFailures = await this.increment(this.key('ip-fail', ipAddress));
+    if (ipFailures >= this.IP_BLOCK_AFTER) {
+      await this.redis
+        .multi()
+        .set(this.key('ip-block', ipAddress), '1', 'EX', this.LOCK_SECONDS)
+        .del(this.key('ip-fail', ipAddress))
+        .exec();
+      await this.audit(LockoutEventType.IP_BLOCKED, {
+        ipAddress,
+        failedAttempts: ipFailures,
+        lockedUntil: new Date(Date.now() + this.LOCK_SECONDS * 1000),
+      });
+      this.logger.warn(
+        `Blocked ${ipAddress} after ${ipFailures} failed logins`,
+      );
+    }
+  }
+
+  async recordSuccess(email: string): Promise<void> {
+    const account = this.normalize(email);
+    await this.redis.del(this.key('fail', account), this.key('delay', account));
+  }
+
+  /** Clear an account's lock and failure count */
+  async unlockAccount(userId: string, actorId: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    const account = this.normalize(user.email);
+    await this.redis.del(
+      this.key('lock', account),
+      this.key('fail', account),
+      this.key('delay', account),
+    );
+    await this.audit(LockoutEventType.ACCOUNT_UNLOCKED, {
+      userId,
+      email: account,
+      actorId,
+    });
+  }
+
+  async unblockIp(ipAddress: string, actorId: string): Promise<void> {
+    await this.redis.del(
+      this.key('ip-block', ipAddress),
+      this.key('ip-fail', ipAddress),
+    );
+    await this.audit(LockoutEventType.IP_UNBLOCKED, { ipAddress, actorId });
+  }
+
+  async listEvents(
+    query: ListLockoutEventsQueryDto,
+  ): Promise<LockoutEventListResponseDto> {
+    const events = await this.prisma.lockoutEvent.findMany({
+      where: { type: query.type, userId: query.userId },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit ?? 50,
+    });
+
+    return { events };
+  }
+
+  /** Count within a window that restarts with every increment */
+  private async increment(key: string): Promise<number> {
+    const [[, count]] = (await this.redis
+      .multi()
+      .incr(key)
+      .expire(key, this.WINDOW_SECONDS)
+      .exec()) as [[Error | null, number], [Error | null, number]];
+    return count;
+  }
+
+  private async audit(
+    type: LockoutEventType,
+    event: {
+      userId?: string;
+      email?: string;
+      ipAddress?: string;
+      failedAttempts?: number;
+      lockedUntil?: Date;
+      actorId?: string;
+    },
+  ): Promise<void> {
+    await this.prisma.lockoutEvent.create({ data: { type, ...event } });
+  }
+
+  private tooManyAttempts(reason: string, retryAfterMs: number) {
+    return new HttpException(
+      `${reason}. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  private key(kind: string, subject: string): string {
+    return `login:${kind}:${subject}`;
+  }
+
+  private normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
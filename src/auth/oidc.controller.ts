@@ -0,0 +1,115 @@
+import { Controller, Get, Headers, Ip, Query, Req, Res } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiExtraModels,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import type { Request, Response } from 'express';
+import { AuthService } from './auth.service';
+import { OIDC_STATE_COOKIE, OidcService } from './oidc.service';
+import { OidcCallbackQueryDto } from './dto/request/oidc-callback-query.dto';
+import { AuthResponseDto } from './dto/response/auth-response.dto';
+import { TwoFactorChallengeResponseDto } from './dto/response/two-factor-response.dto';
+
+const STATE_COOKIE_PATH = '/auth/oidc';
+
+@ApiTags('Authentication')
+@Controller('auth/oidc')
+export class OidcController {
+  constructor(
+    private readonly oidcService: OidcService,
+    private readonly authService: AuthService,
+  ) {}
+
+  @Get('login')
+  @ApiOperation({
+    summary: 'Start single sign-on',
+    description:
+      'Open in a browser. Redirects to the configured OpenID Connect provider, which returns to GET /auth/oidc/callback.',
+  })
+  @ApiResponse({
+    status: 302,
+    description: 'Redirect to the identity provider',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Not found - OIDC login is not configured',
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable - Identity provider is unreachable',
+  })
+  async login(@Res() res: Response) {
+    const authorization = await this.oidcService.createAuthorization();
+
+    res.cookie(OIDC_STATE_COOKIE, authorization.stateToken, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: authorization.secure,
+      path: STATE_COOKIE_PATH,
+      maxAge: authorization.expiresIn * 1000,
+    });
+    res.redirect(authorization.url);
+  }
+
+  @Get('callback')
+  @ApiOperation({
+    summary: 'Finish single sign-on',
+    description:
+      'Called by the identity provider. Links the account with the same verified email or creates one, then returns the token pair, or a challenge when the account has two-factor authentication.',
+  })
+  @ApiExtraModels(AuthResponseDto, TwoFactorChallengeResponseDto)
+  @ApiResponse({
+    status: 200,
+    description:
+      'User successfully logged in, or a challenge when a second factor is required',
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(AuthResponseDto) },
+        { $ref: getSchemaPath(TwoFactorChallengeResponseDto) },
+      ],
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description:
+      'Unauthorized - Login refused, expired, or the ID token is invalid',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - The email belongs to an account and is not verified by the provider',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - The account is linked to another identity',
+  })
+  async callback(
+    @Query() query: OidcCallbackQueryDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ipAddress: string,
+  ) {
+    res.clearCookie(OIDC_STATE_COOKIE, { path: STATE_COOKIE_PATH });
+
+    const claims = await this.oidcService.authenticate(
+      query,
+      readCookie(req.headers.cookie, OIDC_STATE_COOKIE),
+    );
+
+    return this.authService.loginWithOidc(claims, { userAgent, ipAddress });
+  }
+}
+
+function readCookie(header: string | undefined, name: string) {
+  for (const part of header?.split(';') ?? []) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
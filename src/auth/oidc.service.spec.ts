@@ -0,0 +1,330 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, generateKeyPairSync, KeyObject } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { User } from 'generated/prisma';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../modules/mail/mail.service';
+import { AuthService } from './auth.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { OidcClaims, OidcService } from './oidc.service';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { UserTokensService } from './user-tokens.service';
+
+const CLIENT_ID = 'evaluator';
+const CLIENT_SECRET = 'client-secret';
+const REDIRECT_URI = 'http://localhost:3000/auth/oidc/callback';
+
+interface IdTokenOptions {
+  claims?: Partial<OidcClaims>;
+  nonce?: string;
+  kid?: string;
+  issuer?: string;
+  audience?: string;
+}
+
+/**
+ * Minimal identity provider serving discovery, JWKS and a token endpoint
+ * that checks the PKCE verifier and answers with the configured ID token
+ */
+class MockIdentityProvider {
+  readonly kid = 'key-1';
+  issuer = '';
+  /** Issuer claimed by the discovery document, when not the real one */
+  advertisedIssuer?: string;
+  jwksRequests = 0;
+  idToken: IdTokenOptions = {};
+  private codeChallenge = '';
+  private nonce = '';
+  private readonly server: Server;
+  private readonly privateKey: string;
+  private readonly publicKey: KeyObject;
+
+  constructor() {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    this.privateKey = privateKey
+      .export({ type: 'pkcs8', format: 'pem' })
+      .toString();
+    this.publicKey = publicKey;
+
+    this.server = createServer((req, res) => {
+      const send = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.url === '/.well-known/openid-configuration') {
+        return send(200, {
+          issuer: this.advertisedIssuer ?? this.issuer,
+          authorization_endpoint: `${this.issuer}/authorize`,
+          token_endpoint: `${this.issuer}/token`,
+          jwks_uri: `${this.issuer}/jwks`,
+        });
+      }
+      if (req.url === '/jwks') {
+        this.jwksRequests++;
+        return send(200, {
+          keys: [
+            {
+              ...this.publicKey.export({ format: 'jwk' }),
+              kid: this.kid,
+              use: 'sig',
+              alg: 'RS256',
+            },
+          ],
+        });
+      }
+      if (req.url === '/token' && req.method === 'POST') {
+        let body = '';
+        req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+        req.on('end', () => {
+          const form = new URLSearchParams(body);
+          const verifier = form.get('code_verifier') ?? '';
+          const challenge = createHash('sha256')
+            .update(verifier)
+            .digest('base64url');
+          if (
+            form.get('code') !== 'code-1' ||
+            challenge !== this.codeChallenge
+          ) {
+            return send(400, { error: 'invalid_grant' });
+          }
+          send(200, { id_token: this.signIdToken() });
+        });
+        return;
+      }
+      send(404, { error: 'not_found' });
+    });
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Remember what the client sent to the authorization endpoint */
+  authorize(url: string): string {
+    const params = new URL(url).searchParams;
+    this.codeChallenge = params.get('code_challenge') ?? '';
+    this.nonce = params.get('nonce') ?? '';
+    return params.get('state') ?? '';
+  }
+
+  private signIdToken(): string {
+    const { claims, nonce, kid, issuer, audience } = this.idToken;
+    return new JwtService({}).sign(
+      {
+        sub: 'idp-user-1',
+        email: 'jane@example.com',
+        email_verified: true,
+        name: 'Jane Doe',
+        nonce: nonce ?? this.nonce,
+        ...claims,
+      },
+      {
+        secret: this.privateKey,
+        algorithm: 'RS256',
+        keyid: kid ?? this.kid,
+        issuer: issuer ?? this.issuer,
+        audience: audience ?? CLIENT_ID,
+        expiresIn: 300,
+      },
+    );
+  }
+}
+
+describe('OIDC login', () => {
+  const idp = new MockIdentityProvider();
+  let oidc: OidcService;
+
+  beforeAll(() => idp.start());
+  afterAll(() => idp.stop());
+
+  beforeEach(() => {
+    idp.idToken = {};
+    idp.advertisedIssuer = undefined;
+    idp.jwksRequests = 0;
+    const config: Record<string, string> = {
+      OIDC_ISSUER: idp.issuer,
+      OIDC_CLIENT_ID: CLIENT_ID,
+      OIDC_CLIENT_SECRET: CLIENT_SECRET,
+      OIDC_REDIRECT_URI: REDIRECT_URI,
+    };
+    oidc = new OidcService(new JwtService({ secret: 'state-secret' }), {
+      get: (key: string) => config[key],
+    } as ConfigService);
+  });
+
+  /** Run the browser round trip and return the verified claims */
+  async function signIn(overrideState?: string): Promise<OidcClaims> {
+    const { url, stateToken } = await oidc.createAuthorization();
+    const state = idp.authorize(url);
+    return oidc.authenticate(
+      { code: 'code-1', state: overrideState ?? state },
+      stateToken,
+    );
+  }
+
+  describe('OidcService', () => {
+    it('returns the verified claims of a valid login', async () => {
+      await expect(signIn()).resolves.toMatchObject({
+        sub: 'idp-user-1',
+        email: 'jane@example.com',
+        email_verified: true,
+      });
+    });
+
+    it('rejects a state that does not match the cookie', async () => {
+      await expect(signIn('forged-state')).rejects.toThrow(
+        'Invalid login state',
+      );
+    });
+
+    it('rejects a missing state cookie', async () => {
+      const { url } = await oidc.createAuthorization();
+      const state = idp.authorize(url);
+
+      await expect(
+        oidc.authenticate({ code: 'code-1', state }, undefined),
+      ).rejects.toThrow('Login attempt expired or started in another browser');
+    });
+
+    it('rejects an ID token with another nonce', async () => {
+      idp.idToken = { nonce: 'replayed-nonce' };
+
+      await expect(signIn()).rejects.toThrow('Invalid ID token nonce');
+    });
+
+    it('rejects an ID token for another audience', async () => {
+      idp.idToken = { audience: 'another-client' };
+
+      await expect(signIn()).rejects.toThrow('Invalid ID token');
+    });
+
+    it('rejects an ID token from another issuer', async () => {
+      idp.idToken = { issuer: 'https://evil.example.com' };
+
+      await expect(signIn()).rejects.toThrow('Invalid ID token');
+    });
+
+    it('rejects an ID token signed with an unknown key', async () => {
+      idp.idToken = { kid: 'rotated-away' };
+
+      await expect(signIn()).rejects.toThrow(
+        'ID token signed with an unknown key',
+      );
+    });
+
+    it('reloads the JWKS for unknown keys at most once a minute', async () => {
+      await signIn();
+      idp.idToken = { kid: 'forged-1' };
+      await expect(signIn()).rejects.toThrow('unknown key');
+      idp.idToken = { kid: 'forged-2' };
+      await expect(signIn()).rejects.toThrow('unknown key');
+
+      expect(idp.jwksRequests).toBe(1);
+    });
+
+    it('rejects a discovery document for another issuer', async () => {
+      idp.advertisedIssuer = 'https://evil.example.com';
+
+      await expect(oidc.createAuthorization()).rejects.toThrow(
+        'Identity provider is unavailable',
+      );
+    });
+  });
+
+  describe('AuthService.loginWithOidc', () => {
+    const existing = {
+      id: 'user-1',
+      email: 'jane@example.com',
+      name: 'Jane Doe',
+      oidcSubject: null,
+      emailVerifiedAt: null,
+      totpEnabledAt: null,
+    } as User;
+    const client = { ipAddress: '203.0.113.7', userAgent: 'jest' };
+    let prisma: {
+      user: { findUnique: jest.Mock; update: jest.Mock; create: jest.Mock };
+    };
+    let auth: AuthService;
+
+    beforeEach(() => {
+      prisma = {
+        user: {
+          findUnique: jest.fn(({ where }: { where: { email?: string } }) =>
+            Promise.resolve(where.email === existing.email ? existing : null),
+          ),
+          update: jest.fn(({ data }: { data: Partial<User> }) =>
+            Promise.resolve({ ...existing, ...data }),
+          ),
+          create: jest.fn(),
+        },
+      };
+      const sessions = {
+        createSession: jest.fn().mockResolvedValue({
+          sessionId: 'session-1',
+          refreshToken: 'refresh-token',
+        }),
+      };
+      auth = new AuthService(
+        prisma as unknown as PrismaService,
+        new JwtService({ secret: 'jwt-secret' }),
+        sessions as unknown as SessionsService,
+        {} as UserTokensService,
+        {} as MailService,
+        { get: () => undefined } as unknown as ConfigService,
+        {} as LoginAttemptsService,
+        {} as TwoFactorService,
+      );
+    });
+
+    it('links an existing account when the email is verified', async () => {
+      const response = await auth.loginWithOidc(await signIn(), client);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: existing.id },
+        data: {
+          oidcSubject: 'idp-user-1',
+          emailVerifiedAt: expect.any(Date) as Date,
+        },
+      });
+      expect(response).toMatchObject({ user: { id: existing.id } });
+    });
+
+    it('refuses to link when the email is not verified', async () => {
+      idp.idToken = { claims: { email_verified: false } };
+
+      await expect(auth.loginWithOidc(await signIn(), client)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses an account linked to another subject', async () => {
+      prisma.user.findUnique.mockImplementation(
+        ({ where }: { where: { email?: string } }) =>
+          Promise.resolve(
+            where.email ? { ...existing, oidcSubject: 'someone-else' } : null,
+          ),
+      );
+
+      await expect(auth.loginWithOidc(await signIn(), client)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
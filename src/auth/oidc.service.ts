@@ -0,0 +1,319 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, createPublicKey, JsonWebKey, randomBytes } from 'crypto';
+import { OidcCallbackQueryDto } from './dto/request/oidc-callback-query.dto';
+
+interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface OidcStatePayload {
+  type: 'oidc_state';
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/** Identity claims of a verified ID token */
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  nonce?: string;
+}
+
+export interface OidcAuthorization {
+  /** Identity provider URL to send the browser to */
+  url: string;
+  /** Signed state to keep in a cookie until the callback */
+  stateToken: string;
+  expiresIn: number;
+  /** Whether the callback is served over HTTPS */
+  secure: boolean;
+}
+
+export const OIDC_STATE_COOKIE = 'oidc_state';
+
+/**
+ * OpenID Connect authorization-code client with PKCE. The provider is
+ * discovered from OIDC_ISSUER, so any compliant IdP can be used, including a
+ * mock one running locally.
+ */
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private readonly STATE_TTL_SECONDS = 600;
+  /** Minimum time between JWKS reloads triggered by unknown key IDs */
+  private readonly JWKS_RELOAD_INTERVAL_MS = 60_000;
+  private readonly issuer?: string;
+  private readonly clientId?: string;
+  private readonly clientSecret?: string;
+  private readonly redirectUri?: string;
+  private readonly scopes: string;
+  private metadata?: OidcProviderMetadata;
+  /** PEM public keys from the provider JWKS by key ID */
+  private signingKeys = new Map<string, string>();
+  private signingKeysLoadedAt = 0;
+
+  constructor(
+    private readonly jwt: JwtService,
+    configService: ConfigService,
+  ) {
+    this.issuer = configService.get<string>('OIDC_ISSUER') || undefined;
+    this.clientId = configService.get<string>('OIDC_CLIENT_ID') || undefined;
+    this.clientSecret =
+      configService.get<string>('OIDC_CLIENT_SECRET') || undefined;
+    this.redirectUri =
+      configService.get<string>('OIDC_REDIRECT_URI') || undefined;
+    this.scopes =
+      configService.get<string>('OIDC_SCOPES') || 'openid email profile';
+  }
+
+  /** Build the provider login URL with fresh state, nonce and PKCE verifier */
+  async createAuthorization(): Promise<OidcAuthorization> {
+    const { clientId, redirectUri } = this.requireConfig();
+    const metadata = await this.discover();
+
+    const payload: OidcStatePayload = {
+      type: 'oidc_state',
+      state: randomBytes(16).toString('base64url'),
+      nonce: randomBytes(16).toString('base64url'),
+      codeVerifier: randomBytes(32).toString('base64url'),
+    };
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('scope', this.scopes);
+    url.searchParams.set('state', payload.state);
+    url.searchParams.set('nonce', payload.nonce);
+    url.searchParams.set(
+      'code_challenge',
+      createHash('sha256').update(payload.codeVerifier).digest('base64url'),
+    );
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return {
+      url: url.toString(),
+      stateToken: this.jwt.sign(payload, {
+        expiresIn: this.STATE_TTL_SECONDS,
+      }),
+      expiresIn: this.STATE_TTL_SECONDS,
+      secure: redirectUri.startsWith('https:'),
+    };
+  }
+
+  /**
+   * Exchange the callback code for tokens and return the verified ID token
+   * claims. The state must match the one issued to this browser.
+   */
+  async authenticate(
+    query: OidcCallbackQueryDto,
+    stateToken: string | undefined,
+  ): Promise<OidcClaims> {
+    const { clientId, clientSecret, redirectUri } = this.requireConfig();
+
+    if (query.error) {
+      throw new UnauthorizedException(
+        `Identity provider refused the login: ${query.error_description ?? query.error}`,
+      );
+    }
+
+    let state: OidcStatePayload;
+    try {
+      state = this.jwt.verify<OidcStatePayload>(stateToken ?? '');
+    } catch {
+      throw new UnauthorizedException(
+        'Login attempt expired or started in another browser',
+      );
+    }
+
+    if (
+      state.type !== 'oidc_state' ||
+      state.state !== query.state ||
+      !query.code
+    ) {
+      throw new UnauthorizedException('Invalid login state');
+    }
+
+    const metadata = await this.discover();
+    const credentials = Buffer.from(
+      `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`,
+    ).toString('base64');
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: query.code,
+        redirect_uri: redirectUri,
+        code_verifier: state.codeVerifier,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      this.logger.warn(
+        `OIDC token exchange failed: ${response.status} - ${errorText}`,
+      );
+      throw new UnauthorizedException(
+        'Identity provider rejected the authorization code',
+      );
+    }
+
+    const tokens = (await response.json()) as { id_token?: string };
+    if (!tokens.id_token) {
+      throw new UnauthorizedException(
+        'Identity provider did not return an ID token',
+      );
+    }
+
+    const claims = await this.verifyIdToken(
+      tokens.id_token,
+      metadata,
+      clientId,
+    );
+    if (claims.nonce !== state.nonce) {
+      throw new UnauthorizedException('Invalid ID token nonce');
+    }
+
+    return claims;
+  }
+
+  private async verifyIdToken(
+    idToken: string,
+    metadata: OidcProviderMetadata,
+    clientId: string,
+  ): Promise<OidcClaims> {
+    const decoded = this.jwt.decode<{
+      header?: { alg?: string; kid?: string };
+    }>(idToken, { complete: true });
+    if (decoded?.header?.alg !== 'RS256') {
+      throw new UnauthorizedException('Unsupported ID token algorithm');
+    }
+
+    const key = await this.signingKey(metadata.jwks_uri, decoded.header.kid);
+
+    try {
+      return this.jwt.verify<OidcClaims>(idToken, {
+        secret: key,
+        algorithms: ['RS256'],
+        issuer: metadata.issuer,
+        audience: clientId,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `OIDC ID token rejected: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new UnauthorizedException('Invalid ID token');
+    }
+  }
+
+  /**
+   * Look up a signing key, reloading the JWKS for unknown key IDs at most
+   * once a minute so forged tokens cannot flood the provider
+   */
+  private async signingKey(jwksUri: string, kid?: string): Promise<string> {
+    let key = this.findSigningKey(kid);
+    if (
+      !key &&
+      Date.now() - this.signingKeysLoadedAt >= this.JWKS_RELOAD_INTERVAL_MS
+    ) {
+      this.signingKeysLoadedAt = Date.now();
+      const { keys } = await this.fetchJson<{
+        keys: (JsonWebKey & { kid?: string })[];
+      }>(jwksUri);
+      this.signingKeys = new Map(
+        keys
+          .filter((jwk) => jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig'))
+          .map((jwk) => [
+            jwk.kid ?? '',
+            createPublicKey({ key: jwk, format: 'jwk' })
+              .export({ type: 'spki', format: 'pem' })
+              .toString(),
+          ]),
+      );
+      key = this.findSigningKey(kid);
+    }
+
+    if (!key) {
+      throw new UnauthorizedException('ID token signed with an unknown key');
+    }
+    return key;
+  }
+
+  private findSigningKey(kid?: string): string | undefined {
+    if (kid) {
+      return this.signingKeys.get(kid);
+    }
+    return this.signingKeys.size === 1
+      ? [...this.signingKeys.values()][0]
+      : undefined;
+  }
+
+  /**
+   * Load the provider metadata. Its issuer must be the configured one, as
+   * it is what ID tokens are checked against.
+   */
+  private async discover(): Promise<OidcProviderMetadata> {
+    if (!this.metadata) {
+      const issuer = this.requireConfig().issuer.replace(/\/+$/, '');
+      const metadata = await this.fetchJson<OidcProviderMetadata>(
+        `${issuer}/.well-known/openid-configuration`,
+      );
+      if (metadata.issuer?.replace(/\/+$/, '') !== issuer) {
+        this.logger.error(
+          `OIDC discovery for ${issuer} returned issuer ${metadata.issuer}`,
+        );
+        throw new ServiceUnavailableException(
+          'Identity provider is unavailable',
+        );
+      }
+      this.metadata = metadata;
+      this.logger.log(`Discovered OIDC provider ${metadata.issuer}`);
+    }
+    return this.metadata;
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    try {
+      const response = await fetch(url, {
+        headers: { Accept: 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(`status ${response.status}`);
+      }
+      return (await response.json()) as T;
+    } catch (error) {
+      this.logger.error(
+        `OIDC request to ${url} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new ServiceUnavailableException('Identity provider is unavailable');
+    }
+  }
+
+  private requireConfig() {
+    const { issuer, clientId, clientSecret, redirectUri } = this;
+    if (!issuer || !clientId || !clientSecret || !redirectUri) {
+      throw new NotFoundException('OIDC login is not configured');
+    }
+    return { issuer, clientId, clientSecret, redirectUri };
+  }
+}
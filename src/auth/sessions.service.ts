@@ -0,0 +1,163 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionListResponseDto } from './dto/response/session-response.dto';
+
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedSession {
+  sessionId: string;
+  refreshToken: string;
+}
+
+/**
+ * A session is one login and the family of refresh tokens rotated from it.
+ * Each refresh token works once; presenting a used one again means it leaked,
+ * so the whole session is revoked.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+  private readonly REFRESH_TOKEN_TTL_SECONDS = 3600 * 7;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async createSession(
+    userId: string,
+    client: SessionClient,
+  ): Promise<IssuedSession> {
+    const session = await this.prisma.session.create({
+      data: {
+        userId,
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+        expiresAt: this.refreshExpiry(),
+      },
+    });
+
+    return {
+      sessionId: session.id,
+      refreshToken: await this.issueRefreshToken(session.id),
+    };
+  }
+
+  /** Trade a refresh token for a new one in the same session */
+  async rotate(
+    refreshToken: string,
+  ): Promise<IssuedSession & { userId: string }> {
+    const token = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      include: { session: true },
+    });
+
+    if (!token) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const { session } = token;
+    if (session.revokedAt) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    const now = new Date();
+    const claimed = await this.prisma.refreshToken.updateMany({
+      where: { id: token.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (claimed.count === 0) {
+      await this.revokeSession(session.id);
+      this.logger.warn(
+        `Refresh token reuse detected for session ${session.id} of user ${session.userId}; session revoked`,
+      );
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+
+    if (token.expiresAt <= now) {
+      throw new UnauthorizedException('Refresh token has expired');
+    }
+
+    await this.prisma.session.update({
+      where: { id: session.id },
+      data: { lastUsedAt: now, expiresAt: this.refreshExpiry() },
+    });
+
+    return {
+      userId: session.userId,
+      sessionId: session.id,
+      refreshToken: await this.issueRefreshToken(session.id),
+    };
+  }
+
+  async isActive(sessionId: string): Promise<boolean> {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true },
+    });
+
+    return !!session && !session.revokedAt;
+  }
+
+  async listSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionListResponseDto> {
+    const sessions = await this.prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return {
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === currentSessionId,
+      })),
+    };
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async revokeAllSessions(userId: string): Promise<number> {
+    const { count } = await this.prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    this.logger.log(`Revoked ${count} sessions of user ${userId}`);
+    return count;
+  }
+
+  private async issueRefreshToken(sessionId: string): Promise<string> {
+    const refreshToken = randomBytes(48).toString('base64url');
+
+    await this.prisma.refreshToken.create({
+      data: {
+        sessionId,
+        tokenHash: this.hashToken(refreshToken),
+        expiresAt: this.refreshExpiry(),
+      },
+    });
+
+    return refreshToken;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private refreshExpiry(): Date {
+    return new Date(Date.now() + this.REFRESH_TOKEN_TTL_SECONDS * 1000);
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { TwoFactorService } from './two-factor.service';
+import { EnableTwoFactorDto } from './dto/request/enable-two-factor.dto';
+import { SecondFactorDto } from './dto/request/second-factor.dto';
+import {
+  RecoveryCodesResponseDto,
+  TwoFactorSetupResponseDto,
+} from './dto/response/two-factor-response.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth/2fa')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Post('setup')
+  @ApiOperation({
+    summary: 'Start two-factor enrolment',
+    description:
+      'Returns a new TOTP secret for the authenticator app. It takes effect once confirmed with POST /auth/2fa/enable.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Secret generated',
+    type: TwoFactorSetupResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Two-factor authentication already enabled',
+  })
+  setup(@CurrentUser('id') userId: string): Promise<TwoFactorSetupResponseDto> {
+    return this.twoFactorService.setup(userId);
+  }
+
+  @Post('enable')
+  @ApiOperation({ summary: 'Confirm enrolment with a code' })
+  @ApiResponse({
+    status: 201,
+    description: 'Two-factor authentication enabled',
+    type: RecoveryCodesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid code or setup not started',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Two-factor authentication already enabled',
+  })
+  enable(
+    @CurrentUser('id') userId: string,
+    @Body() request: EnableTwoFactorDto,
+  ): Promise<RecoveryCodesResponseDto> {
+    return this.twoFactorService.enable(userId, request.code);
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Turn off two-factor authentication',
+    description: 'Requires a current code or a recovery code.',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Two-factor authentication disabled',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid code',
+  })
+  async disable(
+    @CurrentUser('id') userId: string,
+    @Body() request: SecondFactorDto,
+  ): Promise<void> {
+    await this.twoFactorService.disable(userId, request);
+  }
+
+  @Post('recovery-codes')
+  @ApiOperation({
+    summary: 'Replace recovery codes',
+    description:
+      'Requires a current code or a recovery code. Earlier recovery codes stop working.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'New recovery codes',
+    type: RecoveryCodesResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid code',
+  })
+  regenerateRecoveryCodes(
+    @CurrentUser('id') userId: string,
+    @Body() request: SecondFactorDto,
+  ): Promise<RecoveryCodesResponseDto> {
+    return this.twoFactorService.regenerateRecoveryCodes(userId, request);
+  }
+}
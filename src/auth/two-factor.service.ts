@@ -0,0 +1,254 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+import { User } from 'generated/prisma';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  generateTotpSecret,
+  totpUri,
+  verifyTotp,
+} from '../common/utils/totp.util';
+import { SecondFactorDto } from './dto/request/second-factor.dto';
+import {
+  RecoveryCodesResponseDto,
+  TwoFactorSetupResponseDto,
+} from './dto/response/two-factor-response.dto';
+
+/**
+ * TOTP enrolment and verification. Secrets are stored encrypted with
+ * TOTP_ENCRYPTION_KEY (JWT_SECRET when unset); recovery codes are hashed.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+  private readonly ISSUER = 'CV Evaluation';
+  private readonly RECOVERY_CODE_COUNT = 10;
+  private readonly encryptionKey: Buffer;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    const secret =
+      configService.get<string>('TOTP_ENCRYPTION_KEY') ||
+      configService.get<string>('JWT_SECRET') ||
+      'fallback-secret-key';
+    this.encryptionKey = createHash('sha256').update(secret).digest();
+  }
+
+  /** Start enrolment with a new secret; it takes effect once confirmed */
+  async setup(userId: string): Promise<TwoFactorSetupResponseDto> {
+    const user = await this.findUserOrThrow(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: this.encrypt(secret), totpLastStep: null },
+    });
+
+    return { secret, otpauthUrl: totpUri(secret, user.email, this.ISSUER) };
+  }
+
+  /** Confirm enrolment with a code from the authenticator */
+  async enable(
+    userId: string,
+    code: string,
+  ): Promise<RecoveryCodesResponseDto> {
+    const user = await this.findUserOrThrow(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.totpSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+
+    const step = verifyTotp(this.decrypt(user.totpSecret), code);
+    if (step === null) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { totpEnabledAt: new Date(), totpLastStep: step },
+    });
+    this.logger.log(`Enabled two-factor authentication for user ${userId}`);
+
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  async disable(userId: string, factor: SecondFactorDto): Promise<void> {
+    const user = await this.findEnabledUserOrThrow(userId);
+    await this.assertSecondFactor(user, factor);
+
+    await this.prisma.$transaction([
+      this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+      }),
+    ]);
+    this.logger.log(`Disabled two-factor authentication for user ${userId}`);
+  }
+
+  async regenerateRecoveryCodes(
+    userId: string,
+    factor: SecondFactorDto,
+  ): Promise<RecoveryCodesResponseDto> {
+    const user = await this.findEnabledUserOrThrow(userId);
+    await this.assertSecondFactor(user, factor);
+
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Check a TOTP code or use up a recovery code. A TOTP code is accepted
+   * once: codes from the last accepted time step or earlier are rejected.
+   */
+  async verifySecondFactor(
+    user: User,
+    factor: SecondFactorDto,
+  ): Promise<boolean> {
+    if (!user.totpSecret) {
+      return false;
+    }
+
+    if (factor.code) {
+      const step = verifyTotp(this.decrypt(user.totpSecret), factor.code);
+      if (step === null) {
+        return false;
+      }
+
+      const claimed = await this.prisma.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+        },
+        data: { totpLastStep: step },
+      });
+      return claimed.count > 0;
+    }
+
+    if (factor.recoveryCode) {
+      return this.useRecoveryCode(user.id, factor.recoveryCode);
+    }
+
+    throw new BadRequestException('Provide a code or a recovery code');
+  }
+
+  private async assertSecondFactor(
+    user: User,
+    factor: SecondFactorDto,
+  ): Promise<void> {
+    if (!(await this.verifySecondFactor(user, factor))) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+  }
+
+  private async useRecoveryCode(
+    userId: string,
+    recoveryCode: string,
+  ): Promise<boolean> {
+    const normalized = recoveryCode.trim().toLowerCase();
+    const codes = await this.prisma.recoveryCode.findMany({
+      where: { userId, usedAt: null },
+    });
+
+    for (const code of codes) {
+      if (await bcrypt.compare(normalized, code.codeHash)) {
+        const claimed = await this.prisma.recoveryCode.updateMany({
+          where: { id: code.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+        if (claimed.count > 0) {
+          this.logger.log(`User ${userId} used a recovery code`);
+        }
+        return claimed.count > 0;
+      }
+    }
+    return false;
+  }
+
+  private async replaceRecoveryCodes(
+    userId: string,
+  ): Promise<RecoveryCodesResponseDto> {
+    const recoveryCodes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () =>
+      randomBytes(5)
+        .toString('hex')
+        .replace(/^(.{4})(.{4})(.{2})$/, '$1-$2-$3'),
+    );
+    const hashes = await Promise.all(
+      recoveryCodes.map((code) => bcrypt.hash(code, 10)),
+    );
+
+    await this.prisma.$transaction([
+      this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.recoveryCode.createMany({
+        data: hashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+
+    return { recoveryCodes };
+  }
+
+  private async findUserOrThrow(userId: string): Promise<User> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+    return user;
+  }
+
+  private async findEnabledUserOrThrow(userId: string): Promise<User> {
+    const user = await this.findUserOrThrow(userId);
+    if (!user.totpEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    return user;
+  }
+
+  /** AES-256-GCM, stored as `iv.tag.ciphertext` in base64url */
+  private encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString('base64url'))
+      .join('.');
+  }
+
+  private decrypt(stored: string): string {
+    const [iv, tag, ciphertext] = stored
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
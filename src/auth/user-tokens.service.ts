@@ -0,0 +1,75 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { UserTokenType } from 'generated/prisma';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Single-use tokens emailed to a user, such as email verification and
+ * password reset links. Only their hashes are stored.
+ */
+@Injectable()
+export class UserTokensService {
+  private readonly TTL_SECONDS: Record<UserTokenType, number> = {
+    [UserTokenType.EMAIL_VERIFICATION]: 3600 * 24,
+    [UserTokenType.PASSWORD_RESET]: 3600,
+  };
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Issue a token, invalidating earlier unused tokens of the same type */
+  async issue(userId: string, type: UserTokenType): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      this.prisma.userToken.updateMany({
+        where: { userId, type, usedAt: null },
+        data: { usedAt: now },
+      }),
+      this.prisma.userToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: this.hashToken(token),
+          expiresAt: new Date(now.getTime() + this.TTL_SECONDS[type] * 1000),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Use up a token
+   * @returns ID of the user the token was issued to
+   */
+  async consume(token: string, type: UserTokenType): Promise<string> {
+    const invalid = new BadRequestException('Invalid or expired token');
+
+    const userToken = await this.prisma.userToken.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+    });
+    if (
+      !userToken ||
+      userToken.type !== type ||
+      userToken.usedAt ||
+      userToken.expiresAt <= new Date()
+    ) {
+      throw invalid;
+    }
+
+    const claimed = await this.prisma.userToken.updateMany({
+      where: { id: userToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw invalid;
+    }
+
+    return userToken.userId;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -7,7 +7,7 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { Request, Response } from 'express';
-import { ErrorResponse } from '../types/error-response.interface';
+import { ErrorResponse, FieldError } from '../types/error-response.interface';
 
 @Catch()
 export class AllExceptionsFilter implements ExceptionFilter {
@@ -18,7 +18,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     const response = ctx.getResponse<Response>();
     const request = ctx.getRequest<Request>();
 
-    const { status, message, error } = this.getErrorDetails(exception);
+    const { status, message, error, errors } = this.getErrorDetails(exception);
     const stack = exception instanceof Error ? exception.stack : undefined;
 
     const responseBody: ErrorResponse = {
@@ -33,6 +33,10 @@ export class AllExceptionsFilter implements ExceptionFilter {
       responseBody.error = error;
     }
 
+    if (errors) {
+      responseBody.errors = errors;
+    }
+
     // Include error stack if in development mode
     if (process.env.NODE_ENV !== 'production' && stack) {
       responseBody.stack = stack;
@@ -55,6 +59,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     status: number;
     message: string | string[];
     error?: string;
+    errors?: FieldError[];
   } {
     if (exception instanceof HttpException) {
       const httpResponse = exception.getResponse();
@@ -82,6 +87,9 @@ export class AllExceptionsFilter implements ExceptionFilter {
           status,
           message: finalMessage,
           error: typeof error === 'string' ? error : undefined,
+          errors: Array.isArray(response.errors)
+            ? (response.errors as FieldError[])
+            : undefined,
         };
       }
     }
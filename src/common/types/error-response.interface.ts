@@ -1,8 +1,15 @@
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
 export interface ErrorResponse {
   success: false;
   statusCode: number;
   message: string | string[];
   error?: string;
+  /** Problems with individual request fields, when the handler reports them */
+  errors?: FieldError[];
   timestamp: string;
   path: string;
   stack?: string;
@@ -0,0 +1,39 @@
+import { BadRequestException } from '@nestjs/common';
+
+/** Sort value and ID of the last item on a page */
+export interface PageCursor {
+  value: number | string | null;
+  id: string;
+}
+
+/** Opaque token for the page after `cursor` */
+export function encodeCursor({ value, id }: PageCursor): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+/** @throws BadRequestException when the token was not made by encodeCursor */
+export function decodeCursor(cursor: string): PageCursor {
+  try {
+    const [value, id] = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString(),
+    ) as unknown[];
+    if (
+      typeof id === 'string' &&
+      (value === null || typeof value === 'number' || typeof value === 'string')
+    ) {
+      return { value, id };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new BadRequestException('Invalid cursor');
+}
+
+/** Date sort value of a cursor */
+export function cursorDate({ value }: PageCursor): Date {
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return date;
+}
@@ -132,9 +132,10 @@ function sleep(ms: number): Promise<void> {
 export async function generateObjectWithRetry<T extends z.ZodType>(
   params: {
     model: any;
-    temperature: number;
+    temperature?: number;
     schema: T;
     prompt: string;
+    abortSignal?: AbortSignal;
   },
   config?: RetryConfig,
 ): Promise<z.infer<T>> {
@@ -173,7 +174,11 @@ export async function generateObjectWithRetry<T extends z.ZodType>(
         lastError,
       );
 
-      if (attempt >= finalConfig.maxRetries - 1 || !isRetryable) {
+      if (
+        attempt >= finalConfig.maxRetries - 1 ||
+        !isRetryable ||
+        params.abortSignal?.aborted
+      ) {
         break;
       }
 
@@ -208,8 +213,9 @@ export async function generateObjectWithRetry<T extends z.ZodType>(
 export async function generateTextWithRetry(
   params: {
     model: any;
-    temperature: number;
+    temperature?: number;
     prompt: string;
+    abortSignal?: AbortSignal;
   },
   config?: RetryConfig,
 ): Promise<string> {
@@ -248,8 +254,12 @@ export async function generateTextWithRetry(
         lastError,
       );
 
-      // If this is the last attempt or error is not retryable, break
-      if (attempt >= finalConfig.maxRetries - 1 || !isRetryable) {
+      // Stop on the last attempt, a non-retryable error or an aborted call
+      if (
+        attempt >= finalConfig.maxRetries - 1 ||
+        !isRetryable ||
+        params.abortSignal?.aborted
+      ) {
         break;
       }
 
@@ -0,0 +1,76 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+const NON_PUBLIC_RANGES = new BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+  ] as const
+).forEach(([network, prefix]) =>
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4'),
+);
+(
+  [
+    ['::', 128],
+    ['::1', 128],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([network, prefix]) =>
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6'),
+);
+
+/**
+ * Whether an IP address is routable on the public internet, i.e. not
+ * loopback, private (RFC 1918, unique local), link-local, shared or reserved
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return isPublicAddress(mapped[1]);
+  }
+
+  const family = isIP(address);
+  if (!family) {
+    return false;
+  }
+  return !NON_PUBLIC_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether every address the URL's host resolves to is public. Hosts that do
+ * not resolve count as not public.
+ */
+export async function isPublicUrl(url: string): Promise<boolean> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return false;
+  }
+
+  if (isIP(hostname)) {
+    return isPublicAddress(hostname);
+  }
+
+  try {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return (
+      addresses.length > 0 &&
+      addresses.every(({ address }) => isPublicAddress(address))
+    );
+  } catch {
+    return false;
+  }
+}
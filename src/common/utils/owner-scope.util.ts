@@ -0,0 +1,17 @@
+/** Workspace a request acts in: the user's own, or an organization they belong to */
+export interface OwnerScope {
+  userId: string;
+  organizationId?: string;
+}
+
+/**
+ * Prisma filter for records owned by a scope. Organization records are shared
+ * by every member; personal records belong to their user alone.
+ */
+export function ownerFilter(
+  scope: OwnerScope,
+): { organizationId: string } | { userId: string; organizationId: null } {
+  return scope.organizationId
+    ? { organizationId: scope.organizationId }
+    : { userId: scope.userId, organizationId: null };
+}
@@ -0,0 +1,20 @@
+import { PDFParse } from 'pdf-parse';
+
+/**
+ * Extract the plain text of a PDF
+ * @param source - Raw file bytes or a URL to fetch the file from
+ * @returns Trimmed text content (empty when the PDF has no text layer)
+ */
+export async function extractPdfText(
+  source: { data: Buffer } | { url: string },
+): Promise<string> {
+  const parser = new PDFParse(
+    'data' in source ? { data: new Uint8Array(source.data) } : source,
+  );
+  try {
+    const result = await parser.getText();
+    return (result.text ?? '').trim();
+  } finally {
+    await parser.destroy();
+  }
+}
@@ -0,0 +1,56 @@
+import { totpCode, verifyTotp } from './totp.util';
+
+/** Base32 of the ASCII secret "12345678901234567890" used by both RFCs */
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp.util', () => {
+  describe('totpCode', () => {
+    // RFC 4226 appendix D: HOTP values for counters 0 to 9
+    it.each([
+      [0, '755224'],
+      [1, '287082'],
+      [2, '359152'],
+      [3, '969429'],
+      [4, '338314'],
+      [5, '254676'],
+      [6, '287922'],
+      [7, '162583'],
+      [8, '399871'],
+      [9, '520489'],
+    ])('matches the RFC 4226 value for counter %i', (counter, expected) => {
+      expect(totpCode(RFC_SECRET, counter)).toBe(expected);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    // RFC 6238 appendix B, SHA1: the published 8-digit codes truncated to
+    // the 6 digits we issue
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130'],
+    ])('accepts the RFC 6238 code at %i seconds', (seconds, code) => {
+      expect(verifyTotp(RFC_SECRET, code, seconds * 1000)).toBe(
+        Math.floor(seconds / 30),
+      );
+    });
+
+    it('accepts a code from the adjacent time step', () => {
+      expect(verifyTotp(RFC_SECRET, '081804', 1111111139 * 1000)).toBe(
+        37037036,
+      );
+    });
+
+    it('rejects a code two time steps old', () => {
+      expect(verifyTotp(RFC_SECRET, '081804', 1111111169 * 1000)).toBeNull();
+    });
+
+    it('rejects malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '81804', 1111111109 * 1000)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '08180a', 1111111109 * 1000)).toBeNull();
+    });
+  });
+});
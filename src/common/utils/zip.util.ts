@@ -0,0 +1,116 @@
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  /** Path inside the archive, using `/` separators */
+  name: string;
+  data: Buffer;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Read the files of a ZIP archive
+ *
+ * Supports stored and deflated entries, which covers archives produced by
+ * common OS tools. ZIP64 and encrypted archives are rejected.
+ * @param archive - Raw archive bytes
+ * @param maxTotalBytes - Upper bound on the uncompressed size of all entries
+ * @returns File entries in archive order, without directories and macOS metadata
+ */
+export function readZipEntries(
+  archive: Buffer,
+  maxTotalBytes: number,
+): ZipEntry[] {
+  const end = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString('utf-8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || name.startsWith('__MACOSX/')) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error('Encrypted ZIP archives are not supported');
+    }
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    totalBytes += size;
+    if (totalBytes > maxTotalBytes) {
+      throw new Error(
+        `ZIP contents exceed the ${maxTotalBytes} byte limit when extracted`,
+      );
+    }
+
+    entries.push({
+      name,
+      data: readEntryData(archive, localOffset, method, compressedSize, size),
+    });
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // The record is 22 bytes plus a comment of at most 65535 bytes
+  const lowest = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= lowest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+function readEntryData(
+  archive: Buffer,
+  localOffset: number,
+  method: number,
+  compressedSize: number,
+  size: number,
+): Buffer {
+  if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+    throw new Error('Corrupt ZIP local file header');
+  }
+
+  const start =
+    localOffset +
+    30 +
+    archive.readUInt16LE(localOffset + 26) +
+    archive.readUInt16LE(localOffset + 28);
+  const compressed = archive.subarray(start, start + compressedSize);
+
+  switch (method) {
+    case METHOD_STORED:
+      return Buffer.from(compressed);
+    case METHOD_DEFLATE:
+      return inflateRawSync(compressed, { maxOutputLength: size || 1 });
+    default:
+      throw new Error(`Unsupported ZIP compression method ${method}`);
+  }
+}
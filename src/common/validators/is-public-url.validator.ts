@@ -0,0 +1,33 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+import { isPublicUrl } from '../utils/network.util';
+
+@ValidatorConstraint({ name: 'isPublicUrl', async: true })
+class IsPublicUrlConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown): Promise<boolean> | boolean {
+    return typeof value === 'string' && isPublicUrl(value);
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return `${args.property} must resolve to a public internet address`;
+  }
+}
+
+/**
+ * Rejects URLs whose host is or resolves to a loopback, private or
+ * link-local address, so the server cannot be pointed at internal services
+ */
+export function IsPublicUrl(options?: ValidationOptions) {
+  return (object: object, propertyName: string) =>
+    registerDecorator({
+      target: object.constructor,
+      propertyName,
+      options,
+      validator: IsPublicUrlConstraint,
+    });
+}
@@ -1,4 +1,5 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
@@ -6,10 +7,17 @@ import { LoggerFactory } from './common/logger/logger.factory';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: LoggerFactory('CV-Evaluation'),
   });
 
+  // Behind a load balancer the client address, used to throttle logins,
+  // comes from X-Forwarded-For, which is only trusted from these proxies
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy) {
+    app.set('trust proxy', parseTrustProxy(trustProxy));
+  }
+
   app.useGlobalFilters(new AllExceptionsFilter());
   app.enableCors();
   app.useGlobalPipes(
@@ -37,4 +45,16 @@ async function bootstrap() {
 
   await app.listen(process.env.PORT ?? 3000);
 }
+
+/**
+ * `true`/`false`, a number of proxy hops, or a comma-separated list of
+ * addresses and subnets, as Express accepts them
+ */
+function parseTrustProxy(value: string): boolean | number | string {
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
 void bootstrap();
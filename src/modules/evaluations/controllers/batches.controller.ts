@@ -0,0 +1,184 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiHeader,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserAuthGuard } from '../../../auth/guards/user-auth.guard';
+import { OrganizationGuard } from '../../../auth/guards/organization.guard';
+import { CurrentScope } from '../../../auth/decorators/current-scope.decorator';
+import { OrgRoles } from '../../../auth/decorators/org-roles.decorator';
+import type { OwnerScope } from '../../../common/utils/owner-scope.util';
+import { OrgRole } from 'generated/prisma';
+import {
+  OwnedResource,
+  OwnedResourceType,
+} from '../../../auth/decorators/owned-resource.decorator';
+import { BatchesService } from '../services/batches.service';
+import { CreateBatchDto } from '../dto/request/create-batch.dto';
+import { UploadBatchDto } from '../dto/request/upload-batch.dto';
+import {
+  BatchResponseDto,
+  BatchResultsResponseDto,
+} from '../dto/response/batch-response.dto';
+
+@UseGuards(UserAuthGuard, OrganizationGuard)
+@Controller('batches')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiHeader({
+  name: 'X-Organization-Id',
+  description: 'Act in this organization instead of your personal workspace',
+  required: false,
+})
+@ApiTags('batches')
+export class BatchesController {
+  constructor(private readonly batchesService: BatchesService) {}
+
+  @Post()
+  @OrgRoles(OrgRole.ADMIN, OrgRole.RECRUITER)
+  @ApiOperation({
+    summary: 'Create Batch',
+    description:
+      'Evaluate many uploaded CV and project report pairs for one job title or position.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Batch queued successfully',
+    type: BatchResponseDto,
+  })
+  @ApiResponse({
+    status: 422,
+    description:
+      'A candidate file is missing, belongs to another user, has the wrong type or has no extractable text. `errors` lists the problems by field, e.g. `candidates[2].cvFileId`.',
+  })
+  @ApiResponse({
+    status: 408,
+    description: 'Checking the candidate files took too long',
+  })
+  createBatch(
+    @CurrentScope() scope: OwnerScope,
+    @Body() request: CreateBatchDto,
+  ): Promise<BatchResponseDto> {
+    return this.batchesService.createBatch(scope, request);
+  }
+
+  @Post('upload')
+  @OrgRoles(OrgRole.ADMIN, OrgRole.RECRUITER)
+  @ApiOperation({
+    summary: 'Create Batch from ZIP',
+    description:
+      'Upload a ZIP with one folder per candidate, each holding a cv*.pdf (or resume*.pdf) and a report*.pdf (or project*.pdf). Folder names become candidate labels.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'ZIP archive of candidate folders',
+        },
+        jobTitle: {
+          type: 'string',
+          description: 'Job title, required unless positionId is given',
+          example: 'Backend Engineer',
+        },
+        positionId: {
+          type: 'string',
+          description: 'Position whose documents and rubrics are used',
+        },
+        callbackUrl: {
+          type: 'string',
+          description: 'URL notified as each evaluation finishes',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Batch queued successfully',
+    type: BatchResponseDto,
+  })
+  @ApiResponse({
+    status: 422,
+    description:
+      'A candidate file is missing, belongs to another user, has the wrong type or has no extractable text. `errors` lists the problems by field, e.g. `candidates[2].cvFileId`.',
+  })
+  @ApiResponse({
+    status: 408,
+    description: 'Checking the candidate files took too long',
+  })
+  @UseInterceptors(FileInterceptor('file'))
+  createBatchFromArchive(
+    @CurrentScope() scope: OwnerScope,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() request: UploadBatchDto,
+  ): Promise<BatchResponseDto> {
+    if (!file) {
+      throw new BadRequestException('ZIP file is required');
+    }
+
+    return this.batchesService.createBatchFromArchive(scope, file, request);
+  }
+
+  @Get(':id')
+  @OwnedResource(OwnedResourceType.BATCH)
+  @ApiOperation({
+    summary: 'Get Batch Progress',
+    description: 'Aggregate progress and per-candidate status of a batch.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Batch retrieved successfully',
+    type: BatchResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Batch not found',
+  })
+  getBatch(@Param('id', ParseUUIDPipe) id: string): Promise<BatchResponseDto> {
+    return this.batchesService.getBatch(id);
+  }
+
+  @Get(':id/results')
+  @OwnedResource(OwnedResourceType.BATCH)
+  @ApiOperation({
+    summary: 'Get Ranked Batch Results',
+    description:
+      'Completed candidates of a batch ranked by overall score, best first.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Batch results retrieved successfully',
+    type: BatchResultsResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Batch not found',
+  })
+  getBatchResults(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<BatchResultsResponseDto> {
+    return this.batchesService.getBatchResults(id);
+  }
+}
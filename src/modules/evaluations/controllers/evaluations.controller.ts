@@ -3,6 +3,9 @@ import {
   Post,
   Get,
   Param,
+  Query,
+  Sse,
+  MessageEvent,
   UseInterceptors,
   UploadedFiles,
   BadRequestException,
@@ -10,6 +13,7 @@ import {
   Body,
 } from '@nestjs/common';
 import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import { Observable } from 'rxjs';
 import {
   ApiTags,
   ApiOperation,
@@ -17,19 +21,41 @@ import {
   ApiBody,
   ApiResponse,
   ApiBearerAuth,
+  ApiSecurity,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { EvaluationsService } from '../services/evaluations.service';
 import { UploadResponseDto } from '../dto/response/file-upload-response.dto';
-import { CurrentUser } from '../../../auth/decorators/current-user.decorator';
-import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { UserAuthGuard } from '../../../auth/guards/user-auth.guard';
+import { OrganizationGuard } from '../../../auth/guards/organization.guard';
+import { CurrentScope } from '../../../auth/decorators/current-scope.decorator';
+import { OrgRoles } from '../../../auth/decorators/org-roles.decorator';
+import type { OwnerScope } from '../../../common/utils/owner-scope.util';
+import { OrgRole } from 'generated/prisma';
+import {
+  OwnedResource,
+  OwnedResourceType,
+} from '../../../auth/decorators/owned-resource.decorator';
 import { EvaluationJobResponseDto } from '../dto/response/evaluation-job-response.dto';
 import { EvaluateCandidateDto } from '../dto/request/evaluate-candidate.dto';
+import { GetResultQueryDto } from '../dto/request/get-result-query.dto';
+import { RerunJobDto } from '../dto/request/rerun-job.dto';
+import { EvaluationRunListResponseDto } from '../dto/response/evaluation-run-response.dto';
 import { EvaluationDocumentsService } from '../services/evaluation-documents.service';
-import { UserFilesResponseDto } from '../dto/response/user-files-response.dto';
+import {
+  UserFileItemDto,
+  UserFilesResponseDto,
+} from '../dto/response/user-files-response.dto';
 
-@UseGuards(JwtAuthGuard)
+@UseGuards(UserAuthGuard, OrganizationGuard)
 @Controller()
 @ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiHeader({
+  name: 'X-Organization-Id',
+  description: 'Act in this organization instead of your personal workspace',
+  required: false,
+})
 @ApiTags('evaluations')
 export class EvaluationsController {
   constructor(
@@ -38,6 +64,7 @@ export class EvaluationsController {
   ) {}
 
   @Post('upload')
+  @OrgRoles(OrgRole.ADMIN, OrgRole.RECRUITER)
   @ApiOperation({
     summary: 'Upload CV and Project Report',
     description:
@@ -74,7 +101,7 @@ export class EvaluationsController {
     ]),
   )
   async uploadFiles(
-    @CurrentUser('id') userId: string,
+    @CurrentScope() scope: OwnerScope,
     @UploadedFiles()
     files: {
       cv?: Express.Multer.File[];
@@ -90,7 +117,7 @@ export class EvaluationsController {
     const cvFile = files.cv[0];
     const reportFile = files.report[0];
     const result = await this.evaluationDocumentService.uploadFiles(
-      userId,
+      scope,
       cvFile,
       reportFile,
     );
@@ -114,12 +141,32 @@ export class EvaluationsController {
     type: UserFilesResponseDto,
   })
   async getUserFiles(
-    @CurrentUser('id') userId: string,
+    @CurrentScope() scope: OwnerScope,
   ): Promise<UserFilesResponseDto> {
-    return await this.evaluationDocumentService.getUserFiles(userId);
+    return await this.evaluationDocumentService.getUserFiles(scope);
+  }
+
+  @Get('files/:id')
+  @OwnedResource(OwnedResourceType.FILE)
+  @ApiOperation({
+    summary: 'Get Uploaded File',
+    description: 'Retrieve the metadata of one of your uploaded files.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'File retrieved successfully',
+    type: UserFileItemDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'File not found',
+  })
+  getUserFile(@Param('id') fileId: string): Promise<UserFileItemDto> {
+    return this.evaluationDocumentService.getFile(fileId);
   }
 
   @Post('evaluate')
+  @OrgRoles(OrgRole.ADMIN, OrgRole.RECRUITER)
   @ApiOperation({
     summary: 'Evaluate Candidate',
     description:
@@ -130,11 +177,16 @@ export class EvaluationsController {
     description: 'Evaluation job queued successfully',
     type: EvaluationJobResponseDto,
   })
+  @ApiResponse({
+    status: 422,
+    description:
+      'A file is missing, belongs to another user, has the wrong type or has no extractable text. `errors` lists the problems by field.',
+  })
   async evaluateCandidate(
-    @CurrentUser('id') userId: string,
+    @CurrentScope() scope: OwnerScope,
     @Body() request: EvaluateCandidateDto,
   ): Promise<EvaluationJobResponseDto> {
-    const job = await this.evaluationsService.initializeJob(userId, request);
+    const job = await this.evaluationsService.initializeJob(scope, request);
     return {
       id: job.id,
       status: job.status,
@@ -142,10 +194,11 @@ export class EvaluationsController {
   }
 
   @Get('result/:id')
+  @OwnedResource(OwnedResourceType.JOB)
   @ApiOperation({
     summary: 'Get Evaluation Result',
     description:
-      'Retrieve the evaluation result for a given job ID after processing is complete.',
+      'Retrieve the evaluation result for a given job ID after processing is complete. Pass `detail=full` for the per-criterion breakdown and the rubric versions used.',
   })
   @ApiResponse({
     status: 200,
@@ -154,7 +207,102 @@ export class EvaluationsController {
   })
   getEvaluationResult(
     @Param('id') jobId: string,
+    @Query() query: GetResultQueryDto,
+  ): Promise<EvaluationJobResponseDto> {
+    return this.evaluationsService.getJobStatus(jobId, query.detail);
+  }
+
+  @Post('result/:id/rerun')
+  @OrgRoles(OrgRole.ADMIN, OrgRole.RECRUITER)
+  @OwnedResource(OwnedResourceType.JOB)
+  @ApiOperation({
+    summary: 'Re-run Evaluation',
+    description:
+      'Evaluate an existing job again, for example after a rubric fix or with a different model. `scope` limits the run to the CV stage, the project stage or only the overall summary. Previous attempts stay available under GET /result/:id/runs.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Evaluation job queued again',
+    type: EvaluationJobResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Job is still being evaluated',
+  })
+  async rerunEvaluation(
+    @Param('id') jobId: string,
+    @Body() request: RerunJobDto,
+  ): Promise<EvaluationJobResponseDto> {
+    const job = await this.evaluationsService.rerunJob(jobId, request);
+    return {
+      id: job.id,
+      status: job.status,
+    };
+  }
+
+  @Post('result/:id/cancel')
+  @OrgRoles(OrgRole.ADMIN, OrgRole.RECRUITER)
+  @OwnedResource(OwnedResourceType.JOB)
+  @ApiOperation({
+    summary: 'Cancel Evaluation',
+    description:
+      'Stop a queued or running evaluation. Pending steps are removed from the queues and model calls in progress are aborted.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Evaluation job cancelled',
+    type: EvaluationJobResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Job has already finished',
+  })
+  async cancelEvaluation(
+    @Param('id') jobId: string,
   ): Promise<EvaluationJobResponseDto> {
-    return this.evaluationsService.getJobStatus(jobId);
+    const job = await this.evaluationsService.cancelJob(jobId);
+    return {
+      id: job.id,
+      status: job.status,
+    };
+  }
+
+  @Get('result/:id/runs')
+  @OwnedResource(OwnedResourceType.JOB)
+  @ApiOperation({
+    summary: 'List Evaluation Runs',
+    description:
+      'History of every stage evaluated for a job, with the model, rubric version, prompt hash and scores of each attempt.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Evaluation runs retrieved successfully',
+    type: EvaluationRunListResponseDto,
+  })
+  listEvaluationRuns(
+    @Param('id') jobId: string,
+  ): Promise<EvaluationRunListResponseDto> {
+    return this.evaluationsService.listRuns(jobId);
+  }
+
+  @Sse('result/:id/events')
+  @OwnedResource(OwnedResourceType.JOB)
+  @ApiOperation({
+    summary: 'Stream Evaluation Progress',
+    description:
+      'Server-sent events for a job. Emits a `stage` event with the current stage and on every transition, then a `result` event with the same payload as GET /result/:id once the job completes or fails.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Event stream opened',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Job not found',
+  })
+  streamEvaluationResult(
+    @Param('id') jobId: string,
+  ): Promise<Observable<MessageEvent>> {
+    return this.evaluationsService.streamJobEvents(jobId);
   }
 }
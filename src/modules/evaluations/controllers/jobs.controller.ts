@@ -0,0 +1,48 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiHeader,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserAuthGuard } from '../../../auth/guards/user-auth.guard';
+import { OrganizationGuard } from '../../../auth/guards/organization.guard';
+import { CurrentScope } from '../../../auth/decorators/current-scope.decorator';
+import type { OwnerScope } from '../../../common/utils/owner-scope.util';
+import { JobsService } from '../services/jobs.service';
+import { ListJobsQueryDto } from '../dto/request/list-jobs-query.dto';
+import { JobListResponseDto } from '../dto/response/job-list-response.dto';
+
+@UseGuards(UserAuthGuard, OrganizationGuard)
+@Controller('jobs')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiHeader({
+  name: 'X-Organization-Id',
+  description: 'Act in this organization instead of your personal workspace',
+  required: false,
+})
+@ApiTags('evaluations')
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List Evaluation Jobs',
+    description:
+      'Your evaluation jobs with a compact score summary, newest first by default. Filter by status, job title, creation date and minimum scores; follow `nextCursor` for further pages.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Jobs retrieved successfully',
+    type: JobListResponseDto,
+  })
+  listJobs(
+    @CurrentScope() scope: OwnerScope,
+    @Query() query: ListJobsQueryDto,
+  ): Promise<JobListResponseDto> {
+    return this.jobsService.listJobs(scope, query);
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiKeyGuard } from '../../../auth/guards/api-key.guard';
+import { PositionsService } from '../services/positions.service';
+import { CreatePositionDto } from '../dto/request/create-position.dto';
+import { UpdatePositionDto } from '../dto/request/update-position.dto';
+import {
+  PositionListResponseDto,
+  PositionResponseDto,
+} from '../dto/response/position-response.dto';
+
+@ApiTags('positions')
+@Controller('positions')
+@ApiSecurity('api-key')
+@UseGuards(ApiKeyGuard)
+export class PositionsController {
+  constructor(private readonly positionsService: PositionsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create Position',
+    description:
+      'Bind a job title to its job description, case study, CV rubric and project rubric.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Position created successfully',
+    type: PositionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - A bound document or rubric has the wrong type',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'A bound document or rubric was not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A position with this title already exists',
+  })
+  createPosition(
+    @Body() request: CreatePositionDto,
+  ): Promise<PositionResponseDto> {
+    return this.positionsService.createPosition(request);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List Positions',
+    description: 'List all positions with their bound documents and rubrics.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Positions retrieved successfully',
+    type: PositionListResponseDto,
+  })
+  listPositions(): Promise<PositionListResponseDto> {
+    return this.positionsService.listPositions();
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get Position',
+    description: 'Retrieve a position with its bound documents and rubrics.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Position retrieved successfully',
+    type: PositionResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Position not found',
+  })
+  getPosition(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<PositionResponseDto> {
+    return this.positionsService.getPosition(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update Position',
+    description:
+      'Rename a position or rebind its documents and rubrics. Jobs already queued keep the versions they were pinned to.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Position updated successfully',
+    type: PositionResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Position, document or rubric not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A position with this title already exists',
+  })
+  updatePosition(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() request: UpdatePositionDto,
+  ): Promise<PositionResponseDto> {
+    return this.positionsService.updatePosition(id, request);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete Position',
+    description:
+      'Delete a position. Past jobs keep their results and pinned rubrics.',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Position deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Position not found',
+  })
+  async deletePosition(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.positionsService.deletePosition(id);
+  }
+}
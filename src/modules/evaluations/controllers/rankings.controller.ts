@@ -0,0 +1,78 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiHeader,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserAuthGuard } from '../../../auth/guards/user-auth.guard';
+import { OrganizationGuard } from '../../../auth/guards/organization.guard';
+import { CurrentScope } from '../../../auth/decorators/current-scope.decorator';
+import type { OwnerScope } from '../../../common/utils/owner-scope.util';
+import { RankingsService } from '../services/rankings.service';
+import { RankingQueryDto } from '../dto/request/ranking-query.dto';
+import { CompareQueryDto } from '../dto/request/compare-query.dto';
+import {
+  CompareResponseDto,
+  RankingResponseDto,
+} from '../dto/response/ranking-response.dto';
+
+@UseGuards(UserAuthGuard, OrganizationGuard)
+@Controller('rankings')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiHeader({
+  name: 'X-Organization-Id',
+  description: 'Act in this organization instead of your personal workspace',
+  required: false,
+})
+@ApiTags('rankings')
+export class RankingsController {
+  constructor(private readonly rankingsService: RankingsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Rank Candidates',
+    description:
+      'Completed evaluations for a job title, best first by a weighted composite of cv_match_rate and project_score. Filter on individual criterion scores with minScore.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ranking retrieved successfully',
+    type: RankingResponseDto,
+  })
+  rankCandidates(
+    @CurrentScope() scope: OwnerScope,
+    @Query() query: RankingQueryDto,
+  ): Promise<RankingResponseDto> {
+    return this.rankingsService.rankCandidates(scope, query);
+  }
+
+  @Get('compare')
+  @ApiOperation({
+    summary: 'Compare Candidates',
+    description:
+      'Side-by-side view of 2 to 5 completed evaluations with per-criterion score deltas relative to the first job.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Comparison retrieved successfully',
+    type: CompareResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - A job has not completed yet',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Job not found',
+  })
+  compareCandidates(
+    @CurrentScope() scope: OwnerScope,
+    @Query() query: CompareQueryDto,
+  ): Promise<CompareResponseDto> {
+    return this.rankingsService.compareCandidates(scope, query.jobIds);
+  }
+}
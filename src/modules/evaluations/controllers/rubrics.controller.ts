@@ -0,0 +1,170 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Param,
+  Query,
+  Body,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiConsumes,
+  ApiBody,
+  ApiResponse,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { RubricKind } from 'generated/prisma';
+import { ApiKeyGuard } from '../../../auth/guards/api-key.guard';
+import { RubricsService } from '../services/rubrics.service';
+import { CreateRubricDto } from '../dto/request/create-rubric.dto';
+import { ImportRubricDto } from '../dto/request/import-rubric.dto';
+import { ListRubricsQueryDto } from '../dto/request/list-rubrics-query.dto';
+import {
+  RubricListResponseDto,
+  RubricResponseDto,
+} from '../dto/response/rubric-response.dto';
+
+@ApiTags('rubrics')
+@Controller('rubrics')
+@ApiSecurity('api-key')
+@UseGuards(ApiKeyGuard)
+export class RubricsController {
+  constructor(private readonly rubricsService: RubricsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create Rubric',
+    description:
+      'Create a new rubric version from structured criteria. Weights must sum to 100.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Rubric created successfully',
+    type: RubricResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Criteria do not match the rubric schema',
+  })
+  createRubric(@Body() request: CreateRubricDto): Promise<RubricResponseDto> {
+    return this.rubricsService.createRubric(request);
+  }
+
+  @Post('import')
+  @ApiOperation({
+    summary: 'Import Rubric from PDF',
+    description:
+      'Extract a rubric from a PDF once. The result is saved as an inactive version for review before activation.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file', 'kind'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Rubric file (PDF only)',
+        },
+        kind: {
+          type: 'string',
+          enum: Object.values(RubricKind),
+          description: 'What the rubric evaluates',
+        },
+        jobTitle: {
+          type: 'string',
+          description:
+            'Job title the rubric applies to. Omit for rubrics shared by all job titles.',
+          example: 'Backend Engineer',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Rubric imported successfully',
+    type: RubricResponseDto,
+  })
+  @UseInterceptors(FileInterceptor('file'))
+  async importRubric(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() request: ImportRubricDto,
+  ): Promise<RubricResponseDto> {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    return this.rubricsService.importRubric(file, request);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List Rubrics',
+    description:
+      'List rubric versions, optionally filtered by kind, job title and active status.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rubrics retrieved successfully',
+    type: RubricListResponseDto,
+  })
+  listRubrics(
+    @Query() query: ListRubricsQueryDto,
+  ): Promise<RubricListResponseDto> {
+    return this.rubricsService.listRubrics(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get Rubric',
+    description: 'Retrieve a rubric version with its criteria.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rubric retrieved successfully',
+    type: RubricResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Rubric not found',
+  })
+  getRubric(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<RubricResponseDto> {
+    return this.rubricsService.getRubric(id);
+  }
+
+  @Patch(':id/activate')
+  @ApiOperation({
+    summary: 'Activate Rubric Version',
+    description:
+      'Make this version the one new evaluations are scored against for its kind and job title.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rubric activated successfully',
+    type: RubricResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Rubric weights do not sum to 100',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Rubric not found',
+  })
+  activateRubric(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<RubricResponseDto> {
+    return this.rubricsService.activateRubric(id);
+  }
+}
@@ -1,6 +1,14 @@
 import {
   Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
   Post,
+  Query,
   UseInterceptors,
   UploadedFile,
   BadRequestException,
@@ -15,16 +23,33 @@ import {
   ApiBody,
   ApiResponse,
   ApiSecurity,
+  ApiBearerAuth,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { SystemDocumentsService } from '../services/system-documents.service';
 import { SystemDocUploadResponseDto } from '../dto/response/system-doc-upload-response.dto';
 import { UploadSystemDocDto } from '../dto/request/upload-system-doc.dto';
-import { ApiKeyGuard } from '../../../auth/guards/api-key.guard';
+import { SystemDocType } from '../dto/request/system-doc-metadata.dto';
+import { SystemAccessGuard } from '../../../auth/guards/system-access.guard';
+import { CurrentOrganization } from '../../../auth/decorators/current-organization.decorator';
+import { ListSystemDocsQueryDto } from '../dto/request/list-system-docs-query.dto';
+import {
+  SystemDocDetailDto,
+  SystemDocItemDto,
+  SystemDocListResponseDto,
+} from '../dto/response/system-doc-response.dto';
 
 @ApiTags('system-docs')
 @Controller('system-docs')
 @ApiSecurity('api-key')
-@UseGuards(ApiKeyGuard)
+@ApiBearerAuth()
+@ApiHeader({
+  name: 'X-Organization-Id',
+  description:
+    "Required with a bearer token: manage this organization's documents as its admin",
+  required: false,
+})
+@UseGuards(SystemAccessGuard)
 export class SystemDocumentsController {
   constructor(private readonly systemDocsService: SystemDocumentsService) {}
 
@@ -47,14 +72,26 @@ export class SystemDocumentsController {
         },
         type: {
           type: 'string',
-          enum: ['job_description', 'case_study', 'rubric'],
+          enum: Object.values(SystemDocType),
           description: 'Type of the system document',
         },
         version: {
           type: 'string',
-          description: 'Optional version identifier',
+          description:
+            'Optional version identifier. Defaults to the next number for the type and job title.',
           example: '1.0',
         },
+        jobTitle: {
+          type: 'string',
+          description:
+            'Job title the document applies to. Omit for documents shared by all job titles.',
+          example: 'Backend Engineer',
+        },
+        activate: {
+          type: 'boolean',
+          description:
+            'Make this the active version. Defaults to true when no version is active yet.',
+        },
       },
     },
   })
@@ -63,8 +100,13 @@ export class SystemDocumentsController {
     description: 'System document uploaded successfully',
     type: SystemDocUploadResponseDto,
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Version already exists',
+  })
   @UseInterceptors(FileInterceptor('file'))
   async uploadSystemDocument(
+    @CurrentOrganization() organizationId: string | null,
     @UploadedFile() file: Express.Multer.File,
     @Body() uploadDto: UploadSystemDocDto,
   ): Promise<SystemDocUploadResponseDto> {
@@ -73,6 +115,7 @@ export class SystemDocumentsController {
     }
 
     const uploadedDocument = await this.systemDocsService.uploadSystemDocument(
+      organizationId,
       file,
       uploadDto,
     );
@@ -82,4 +125,92 @@ export class SystemDocumentsController {
       document: uploadedDocument,
     };
   }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List System Documents',
+    description:
+      'List stored system documents, optionally filtered by type, job title and active status.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'System documents retrieved successfully',
+    type: SystemDocListResponseDto,
+  })
+  listSystemDocuments(
+    @CurrentOrganization() organizationId: string | null,
+    @Query() query: ListSystemDocsQueryDto,
+  ): Promise<SystemDocListResponseDto> {
+    return this.systemDocsService.listSystemDocuments(organizationId, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get System Document',
+    description:
+      'Retrieve a system document with its extracted content and a download URL.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'System document retrieved successfully',
+    type: SystemDocDetailDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'System document not found',
+  })
+  getSystemDocument(
+    @CurrentOrganization() organizationId: string | null,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<SystemDocDetailDto> {
+    return this.systemDocsService.getSystemDocument(organizationId, id);
+  }
+
+  @Patch(':id/activate')
+  @ApiOperation({
+    summary: 'Activate System Document Version',
+    description:
+      'Mark this version as the active one for its type and job title. Other versions are deactivated.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'System document activated successfully',
+    type: SystemDocItemDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'System document not found',
+  })
+  activateSystemDocument(
+    @CurrentOrganization() organizationId: string | null,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<SystemDocItemDto> {
+    return this.systemDocsService.activateSystemDocument(organizationId, id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete System Document',
+    description:
+      'Delete a system document from the registry, storage and retrieval index.',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'System document deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'System document not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'System document is still bound to a position',
+  })
+  async deleteSystemDocument(
+    @CurrentOrganization() organizationId: string | null,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.systemDocsService.deleteSystemDocument(organizationId, id);
+  }
 }
@@ -0,0 +1,57 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { EvaluateCandidateDto } from './evaluate-candidate.dto';
+
+export const MAX_BATCH_SIZE = 500;
+
+export class BatchCandidateDto {
+  @ApiProperty({
+    description: 'ID of the uploaded CV file',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsString()
+  @IsNotEmpty()
+  cvFileId: string;
+
+  @ApiProperty({
+    description: 'ID of the uploaded project report file',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  @IsString()
+  @IsNotEmpty()
+  reportFileId: string;
+
+  @ApiProperty({
+    description: 'Label to recognise the candidate in batch results',
+    example: 'Jane Doe',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  label?: string;
+}
+
+export class CreateBatchDto extends OmitType(EvaluateCandidateDto, [
+  'cvFileId',
+  'reportFileId',
+] as const) {
+  @ApiProperty({
+    description: `Candidates to evaluate (at most ${MAX_BATCH_SIZE})`,
+    type: [BatchCandidateDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BATCH_SIZE)
+  @ValidateNested({ each: true })
+  @Type(() => BatchCandidateDto)
+  candidates: BatchCandidateDto[];
+}
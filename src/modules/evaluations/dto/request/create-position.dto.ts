@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, IsUUID } from 'class-validator';
+
+export class CreatePositionDto {
+  @ApiProperty({
+    description: 'Job title of the position',
+    example: 'Backend Engineer',
+  })
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiProperty({
+    description: 'ID of the job description system document',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  jobDescriptionId: string;
+
+  @ApiProperty({
+    description: 'ID of the case study system document',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  @IsUUID()
+  caseStudyId: string;
+
+  @ApiProperty({
+    description: 'ID of the CV rubric version',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+  })
+  @IsUUID()
+  cvRubricId: string;
+
+  @ApiProperty({
+    description: 'ID of the project rubric version',
+    example: '550e8400-e29b-41d4-a716-446655440003',
+  })
+  @IsUUID()
+  projectRubricId: string;
+}
@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { RubricKind } from 'generated/prisma';
+import { RubricCriterionDto } from '../response/rubric-response.dto';
+
+export class CreateRubricDto {
+  @ApiProperty({
+    description: 'What the rubric evaluates',
+    enum: RubricKind,
+    example: RubricKind.CV,
+  })
+  @IsEnum(RubricKind)
+  kind: RubricKind;
+
+  @ApiProperty({
+    description:
+      'Job title the rubric applies to. Omit for rubrics shared by all job titles.',
+    example: 'Backend Engineer',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  jobTitle?: string;
+
+  @ApiProperty({
+    description: 'Evaluation criteria, validated against the rubric schema',
+    type: [RubricCriterionDto],
+  })
+  @IsArray()
+  criteria: unknown[];
+
+  @ApiProperty({
+    description: 'Make this the active version',
+    example: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  activate?: boolean;
+}
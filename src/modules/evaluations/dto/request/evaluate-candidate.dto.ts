@@ -1,14 +1,38 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  IsUUID,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { IsPublicUrl } from 'src/common/validators/is-public-url.validator';
+import { ModelOverridesDto } from './model-overrides.dto';
 
 export class EvaluateCandidateDto {
   @ApiProperty({
-    description: 'Job title for the candidate evaluation',
+    description:
+      'Job title for the candidate evaluation. Required unless positionId is given, in which case the position title is used.',
     example: 'Software Engineer',
+    required: false,
   })
+  @ValidateIf((o: EvaluateCandidateDto) => !o.positionId)
   @IsString()
   @IsNotEmpty()
-  jobTitle: string;
+  jobTitle?: string;
+
+  @ApiProperty({
+    description:
+      'ID of the job position whose job description, case study and rubrics are used',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  positionId?: string;
 
   @ApiProperty({
     description: 'ID of the uploaded CV file from Ragie',
@@ -25,4 +49,26 @@ export class EvaluateCandidateDto {
   @IsString()
   @IsNotEmpty()
   reportFileId: string;
+
+  @ApiProperty({
+    description:
+      'Optional per-job model overrides. Roles that are omitted use the configured defaults.',
+    type: ModelOverridesDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => ModelOverridesDto)
+  @IsOptional()
+  models?: ModelOverridesDto;
+
+  @ApiProperty({
+    description:
+      'URL that receives a signed POST when this evaluation completes or fails, in addition to registered webhooks',
+    example: 'https://ats.example.com/hooks/cv-evaluation',
+    required: false,
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  @IsPublicUrl()
+  @IsOptional()
+  callbackUrl?: string;
 }
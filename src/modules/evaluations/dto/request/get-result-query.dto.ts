@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+
+export enum ResultDetail {
+  SUMMARY = 'summary',
+  FULL = 'full',
+}
+
+export class GetResultQueryDto {
+  @ApiProperty({
+    description:
+      'Level of detail. `full` adds the per-criterion breakdown and the rubric versions used.',
+    enum: ResultDetail,
+    default: ResultDetail.SUMMARY,
+    required: false,
+  })
+  @IsEnum(ResultDetail)
+  @IsOptional()
+  detail?: ResultDetail;
+}
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { RubricKind } from 'generated/prisma';
+
+export class ImportRubricDto {
+  @ApiProperty({
+    description: 'What the rubric evaluates',
+    enum: RubricKind,
+    example: RubricKind.CV,
+  })
+  @IsEnum(RubricKind)
+  kind: RubricKind;
+
+  @ApiProperty({
+    description:
+      'Job title the rubric applies to. Omit for rubrics shared by all job titles.',
+    example: 'Backend Engineer',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  jobTitle?: string;
+}
@@ -0,0 +1,129 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { JobStatus } from 'generated/prisma';
+
+export enum JobSortField {
+  CREATED_AT = 'createdAt',
+  CV_MATCH_RATE = 'cvMatchRate',
+  PROJECT_SCORE = 'projectScore',
+}
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+export class ListJobsQueryDto {
+  @ApiProperty({
+    description: 'Filter by job status',
+    enum: JobStatus,
+    required: false,
+  })
+  @IsEnum(JobStatus)
+  @IsOptional()
+  status?: JobStatus;
+
+  @ApiProperty({
+    description: 'Filter by job title (case-insensitive, partial match)',
+    example: 'Backend',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  jobTitle?: string;
+
+  @ApiProperty({
+    description: 'Only jobs created at or after this time',
+    example: '2025-11-01T00:00:00.000Z',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  createdFrom?: string;
+
+  @ApiProperty({
+    description: 'Only jobs created at or before this time',
+    example: '2025-11-30T23:59:59.999Z',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  createdTo?: string;
+
+  @ApiProperty({
+    description: 'Minimum cv_match_rate (0-1)',
+    example: 0.7,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  minCvMatchRate?: number;
+
+  @ApiProperty({
+    description: 'Minimum project_score (1-5)',
+    example: 3.5,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(5)
+  @IsOptional()
+  minProjectScore?: number;
+
+  @ApiProperty({
+    description:
+      'Field to sort by. Jobs without a score sort last when sorting by score.',
+    enum: JobSortField,
+    default: JobSortField.CREATED_AT,
+    required: false,
+  })
+  @IsEnum(JobSortField)
+  @IsOptional()
+  sortBy?: JobSortField;
+
+  @ApiProperty({
+    description: 'Sort direction',
+    enum: SortOrder,
+    default: SortOrder.DESC,
+    required: false,
+  })
+  @IsEnum(SortOrder)
+  @IsOptional()
+  order?: SortOrder;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 20,
+    default: 20,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+
+  @ApiProperty({
+    description: '`nextCursor` from the previous page',
+    example: 'WzAuODIsIjU1MGU4NDAwLWUyOWItNDFkNC1hNzE2LTQ0NjY1NTQ0MDAwMCJd',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsEnum, IsOptional, IsString } from 'class-validator';
+import { RubricKind } from 'generated/prisma';
+
+export class ListRubricsQueryDto {
+  @ApiProperty({
+    description: 'Filter by rubric kind',
+    enum: RubricKind,
+    required: false,
+  })
+  @IsEnum(RubricKind)
+  @IsOptional()
+  kind?: RubricKind;
+
+  @ApiProperty({
+    description: 'Filter by job title (case-insensitive)',
+    example: 'Backend Engineer',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  jobTitle?: string;
+
+  @ApiProperty({
+    description: 'Only return active versions',
+    example: true,
+    required: false,
+  })
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsEnum, IsOptional, IsString } from 'class-validator';
+import { SystemDocType } from './system-doc-metadata.dto';
+
+export class ListSystemDocsQueryDto {
+  @ApiProperty({
+    description: 'Filter by document type',
+    enum: SystemDocType,
+    required: false,
+  })
+  @IsEnum(SystemDocType)
+  @IsOptional()
+  type?: SystemDocType;
+
+  @ApiProperty({
+    description: 'Filter by job title (case-insensitive)',
+    example: 'Backend Engineer',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  jobTitle?: string;
+
+  @ApiProperty({
+    description: 'Only return active versions',
+    example: true,
+    required: false,
+  })
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -0,0 +1,90 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ModelProvider } from '../../../llm/model-registry.service';
+
+/**
+ * A model chosen for one role. The pair must be allowed by the model
+ * registry, which is checked when the job is submitted.
+ */
+export class ModelConfigDto {
+  @ApiProperty({
+    description:
+      'Model provider. `fake` is only accepted when the server runs with LLM_PROVIDER=fake.',
+    enum: ModelProvider,
+    example: ModelProvider.ANTHROPIC,
+  })
+  @IsEnum(ModelProvider)
+  provider: ModelProvider;
+
+  @ApiProperty({
+    description:
+      'Provider-specific model identifier. Must be a configured model or listed in LLM_ALLOWED_OVERRIDES.',
+    example: 'claude-sonnet-4-5',
+  })
+  @IsString()
+  @IsNotEmpty()
+  model: string;
+
+  @ApiProperty({
+    description: 'Sampling temperature',
+    example: 0.1,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  @IsOptional()
+  temperature?: number;
+}
+
+export class ModelOverridesDto {
+  @ApiProperty({
+    description: 'Model used to extract rubrics into structured criteria',
+    type: ModelConfigDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => ModelConfigDto)
+  @IsOptional()
+  rubricExtraction?: ModelConfigDto;
+
+  @ApiProperty({
+    description: 'Model used to score the CV',
+    type: ModelConfigDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => ModelConfigDto)
+  @IsOptional()
+  cvScoring?: ModelConfigDto;
+
+  @ApiProperty({
+    description: 'Model used to score the project report',
+    type: ModelConfigDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => ModelConfigDto)
+  @IsOptional()
+  projectScoring?: ModelConfigDto;
+
+  @ApiProperty({
+    description: 'Model used to write the overall summary',
+    type: ModelConfigDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => ModelConfigDto)
+  @IsOptional()
+  summary?: ModelConfigDto;
+}
@@ -0,0 +1,72 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+/** `cv.<criterion>:<score>` or `project.<criterion>:<score>` */
+export const CRITERION_FILTER_PATTERN = /^(cv|project)\.([a-z0-9_]+):([1-5])$/;
+
+export class RankingQueryDto {
+  @ApiProperty({
+    description: 'Job title to rank candidates for (case-insensitive)',
+    example: 'Backend Engineer',
+  })
+  @IsString()
+  @IsNotEmpty()
+  jobTitle: string;
+
+  @ApiProperty({
+    description:
+      'Share of the composite score taken by cv_match_rate; the rest goes to project_score rescaled to 0-1',
+    example: 0.5,
+    default: 0.5,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  cvWeight?: number;
+
+  @ApiProperty({
+    description:
+      'Minimum criterion scores as `cv.<criterion>:<score>` or `project.<criterion>:<score>`. Repeat to combine.',
+    example: ['cv.technical_skills:4'],
+    type: [String],
+    required: false,
+  })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? [value] : value,
+  )
+  @IsArray()
+  @Matches(CRITERION_FILTER_PATTERN, {
+    each: true,
+    message:
+      'minScore entries must look like cv.<criterion>:<1-5> or project.<criterion>:<1-5>',
+  })
+  @IsOptional()
+  minScore?: string[];
+
+  @ApiProperty({
+    description: 'Maximum number of candidates to return',
+    example: 50,
+    default: 50,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
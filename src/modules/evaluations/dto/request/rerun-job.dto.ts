@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsBoolean, IsEnum, IsOptional, ValidateNested } from 'class-validator';
+import { ModelOverridesDto } from './model-overrides.dto';
+
+export enum RerunScope {
+  FULL = 'full',
+  CV = 'cv',
+  PROJECT = 'project',
+  OVERALL = 'overall',
+}
+
+export class RerunJobDto {
+  @ApiProperty({
+    description:
+      'Stages to evaluate again. `cv` and `project` also refresh the overall summary; `overall` only rewrites the summary from the stored scores.',
+    enum: RerunScope,
+    default: RerunScope.FULL,
+    required: false,
+  })
+  @IsEnum(RerunScope)
+  @IsOptional()
+  scope?: RerunScope;
+
+  @ApiProperty({
+    description:
+      'Optional model overrides for this run. Roles that are omitted use the configured defaults.',
+    type: ModelOverridesDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => ModelOverridesDto)
+  @IsOptional()
+  models?: ModelOverridesDto;
+
+  @ApiProperty({
+    description:
+      "Pin the rubrics currently bound to the job's position, or the active rubrics for its title, instead of the versions used last time",
+    default: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  repinRubrics?: boolean;
+}
@@ -5,6 +5,8 @@ export enum SystemDocType {
   JOB_DESCRIPTION = 'job_description',
   CASE_STUDY = 'case_study',
   RUBRIC = 'rubric',
+  CV_RUBRIC = 'cv_rubric',
+  PROJECT_RUBRIC = 'project_rubric',
 }
 
 export class SystemDocMetadataDto {
@@ -25,4 +27,14 @@ export class SystemDocMetadataDto {
   @IsString()
   @IsOptional()
   version?: string;
+
+  @ApiProperty({
+    description:
+      'Job title the document applies to. Omit for documents shared by all job titles.',
+    example: 'Backend Engineer',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  jobTitle?: string;
 }
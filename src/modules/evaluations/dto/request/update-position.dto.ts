@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreatePositionDto } from './create-position.dto';
+
+export class UpdatePositionDto extends PartialType(CreatePositionDto) {}
@@ -0,0 +1,8 @@
+import { PickType } from '@nestjs/swagger';
+import { EvaluateCandidateDto } from './evaluate-candidate.dto';
+
+export class UploadBatchDto extends PickType(EvaluateCandidateDto, [
+  'jobTitle',
+  'positionId',
+  'callbackUrl',
+] as const) {}
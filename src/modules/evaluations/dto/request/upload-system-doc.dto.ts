@@ -1,5 +1,12 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
 import { SystemDocType } from './system-doc-metadata.dto';
 
 export class UploadSystemDocDto {
@@ -20,4 +27,25 @@ export class UploadSystemDocDto {
   @IsString()
   @IsOptional()
   version?: string;
+
+  @ApiProperty({
+    description:
+      'Job title the document applies to. Omit for documents shared by all job titles.',
+    example: 'Backend Engineer',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  jobTitle?: string;
+
+  @ApiProperty({
+    description:
+      'Make this the active version. Defaults to true when no version is active yet.',
+    example: true,
+    required: false,
+  })
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  activate?: boolean;
 }
@@ -0,0 +1,100 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { JobStatus } from 'generated/prisma';
+import { EvaluationReportDto } from './evaluation-job-response.dto';
+
+export class BatchProgressDto {
+  @ApiProperty({ example: 200 })
+  total: number;
+
+  @ApiProperty({ example: 120 })
+  queued: number;
+
+  @ApiProperty({ example: 10 })
+  processing: number;
+
+  @ApiProperty({ example: 68 })
+  completed: number;
+
+  @ApiProperty({ example: 2 })
+  failed: number;
+
+  @ApiProperty({ example: 0 })
+  cancelled: number;
+
+  @ApiProperty({
+    description:
+      'Share of jobs that have finished, whether completed, failed or cancelled',
+    example: 0.35,
+  })
+  percentDone: number;
+}
+
+export class BatchJobDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'Jane Doe', nullable: true })
+  candidateLabel: string | null;
+
+  @ApiProperty({ enum: JobStatus, example: JobStatus.QUEUED })
+  status: JobStatus;
+}
+
+export class BatchResponseDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'Backend Engineer' })
+  jobTitle: string;
+
+  @ApiProperty({
+    example: '550e8400-e29b-41d4-a716-446655440001',
+    nullable: true,
+  })
+  positionId: string | null;
+
+  @ApiProperty({ example: '2025-11-16T10:30:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ type: BatchProgressDto })
+  progress: BatchProgressDto;
+
+  @ApiProperty({ type: [BatchJobDto] })
+  jobs: BatchJobDto[];
+}
+
+export class RankedCandidateDto {
+  @ApiProperty({ example: 1 })
+  rank: number;
+
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  jobId: string;
+
+  @ApiProperty({ example: 'Jane Doe', nullable: true })
+  candidateLabel: string | null;
+
+  @ApiProperty({
+    description:
+      'Mean of cv_match_rate and project_score rescaled to 0-1, used for ranking',
+    example: 0.79,
+  })
+  overallScore: number;
+
+  @ApiProperty({ type: EvaluationReportDto })
+  result: EvaluationReportDto;
+}
+
+export class BatchResultsResponseDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  batchId: string;
+
+  @ApiProperty({ type: BatchProgressDto })
+  progress: BatchProgressDto;
+
+  @ApiProperty({
+    description:
+      'Completed candidates with both scores, best first. Candidates without a score are left out rather than ranked as zero.',
+    type: [RankedCandidateDto],
+  })
+  results: RankedCandidateDto[];
+}
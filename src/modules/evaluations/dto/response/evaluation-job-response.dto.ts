@@ -1,5 +1,103 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { JobStatus } from 'generated/prisma';
+import { JobStatus, RunStage } from 'generated/prisma';
+
+export class EvidenceCitationDto {
+  @ApiProperty({
+    description: 'Excerpt quoted by the model',
+    example: 'Led the migration of 12 services to NestJS and PostgreSQL',
+  })
+  quote: string;
+
+  @ApiProperty({
+    description: 'Page the quote starts on',
+    example: 1,
+    nullable: true,
+  })
+  page: number | null;
+
+  @ApiProperty({
+    description: 'Character offset of the quote in the extracted text',
+    example: 532,
+    nullable: true,
+  })
+  offset: number | null;
+
+  @ApiProperty({
+    description:
+      'Whether the quote was found in the document. False means the model cited text that does not exist.',
+    example: true,
+  })
+  verified: boolean;
+}
+
+export class CriterionBreakdownDto {
+  @ApiProperty({ example: 'technical_skills' })
+  name: string;
+
+  @ApiProperty({ example: 'Technical Skills Match' })
+  display_name: string;
+
+  @ApiProperty({ description: 'Score on a 1-5 scale', example: 4 })
+  score: number;
+
+  @ApiProperty({ description: 'Weight in percent', example: 40 })
+  weight: number;
+
+  @ApiProperty({
+    description: 'Points this criterion adds to the 0-100 weighted score',
+    example: 30,
+  })
+  weighted_contribution: number;
+
+  @ApiProperty({
+    example: 'Solid NestJS and PostgreSQL experience across two roles...',
+  })
+  reasoning: string;
+
+  @ApiProperty({
+    description: 'Excerpts from the document supporting the score',
+    type: [EvidenceCitationDto],
+  })
+  evidence: EvidenceCitationDto[];
+}
+
+export class RubricVersionDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 3 })
+  version: number;
+
+  @ApiProperty({ example: 'Backend Engineer', nullable: true })
+  job_title: string | null;
+}
+
+export class ScoreBreakdownDto {
+  @ApiProperty({
+    description:
+      'Sum of the weighted contributions on a 0-100 scale, before conversion to the reported score',
+    example: 82.5,
+  })
+  weighted_score: number;
+
+  @ApiProperty({
+    description:
+      'Rubric version the job was scored against. Null when the rubric was extracted from a document at evaluation time.',
+    type: RubricVersionDto,
+    nullable: true,
+  })
+  rubric: RubricVersionDto | null;
+
+  @ApiProperty({ type: [CriterionBreakdownDto] })
+  criteria: CriterionBreakdownDto[];
+
+  @ApiProperty({
+    description:
+      'Number of evidence quotes that could not be found in the document',
+    example: 0,
+  })
+  unverified_evidence: number;
+}
 
 export class EvaluationReportDto {
   @ApiProperty({ example: 0.82 })
@@ -24,6 +122,64 @@ export class EvaluationReportDto {
     example: 'Good candidate fit, would benefit from deeper RAG knowledge...',
   })
   overall_summary: string;
+
+  @ApiProperty({
+    description: 'Per-criterion CV breakdown, returned with `?detail=full`',
+    type: ScoreBreakdownDto,
+    required: false,
+  })
+  cv_breakdown?: ScoreBreakdownDto;
+
+  @ApiProperty({
+    description:
+      'Per-criterion project breakdown, returned with `?detail=full`',
+    type: ScoreBreakdownDto,
+    required: false,
+  })
+  project_breakdown?: ScoreBreakdownDto;
+}
+
+export class StageErrorDto {
+  @ApiProperty({
+    description: 'Stage that failed',
+    enum: RunStage,
+    example: RunStage.CV,
+  })
+  stage: RunStage;
+
+  @ApiProperty({ description: 'Attempt number of the stage', example: 3 })
+  attempt: number;
+
+  @ApiProperty({
+    description: 'Whether retries were exhausted and the job was failed',
+    example: true,
+  })
+  isFinal: boolean;
+
+  @ApiProperty({ description: 'Error class', example: 'LLMError' })
+  errorClass: string;
+
+  @ApiProperty({
+    example: 'generateObject failed after 3 attempts: Rate limit exceeded',
+  })
+  message: string;
+
+  @ApiProperty({
+    description: 'Whether the model provider reported a transient error',
+    example: true,
+    nullable: true,
+  })
+  isRetryable: boolean | null;
+
+  @ApiProperty({
+    description: 'HTTP status returned by the model provider',
+    example: 429,
+    nullable: true,
+  })
+  statusCode: number | null;
+
+  @ApiProperty({ example: '2025-11-25T10:30:00.000Z' })
+  occurredAt: Date;
 }
 
 export class EvaluationJobResponseDto {
@@ -59,4 +215,19 @@ export class EvaluationJobResponseDto {
     required: false,
   })
   error?: string;
+
+  @ApiProperty({
+    description: 'Stage error that failed the job once retries ran out',
+    type: StageErrorDto,
+    required: false,
+  })
+  failure?: StageErrorDto;
+
+  @ApiProperty({
+    description:
+      'Every failed stage attempt, oldest first. Only returned with `detail=full`.',
+    type: [StageErrorDto],
+    required: false,
+  })
+  stageErrors?: StageErrorDto[];
 }
@@ -0,0 +1,95 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RunStage } from 'generated/prisma';
+
+export class EvaluationRunResponseDto {
+  @ApiProperty({
+    description: 'Run ID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Stage that was evaluated',
+    enum: RunStage,
+    example: RunStage.CV,
+  })
+  stage: RunStage;
+
+  @ApiProperty({
+    description: 'Attempt number of this stage, starting at 1',
+    example: 2,
+  })
+  attempt: number;
+
+  @ApiProperty({ description: 'Model provider', example: 'openai' })
+  provider: string;
+
+  @ApiProperty({ description: 'Model identifier', example: 'gpt-5-mini' })
+  model: string;
+
+  @ApiProperty({
+    description: 'Stored rubric used, or null if it was extracted on the fly',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    nullable: true,
+  })
+  rubricId: string | null;
+
+  @ApiProperty({
+    description: 'Version of the stored rubric used',
+    example: 3,
+    nullable: true,
+  })
+  rubricVersion: number | null;
+
+  @ApiProperty({
+    description: 'SHA-256 of the prompt sent to the model',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+  })
+  promptHash: string;
+
+  @ApiProperty({
+    description:
+      'CV match rate (0-1) or project score (1-5); null for the overall summary',
+    example: 0.82,
+    nullable: true,
+  })
+  score: number | null;
+
+  @ApiProperty({
+    description: 'Feedback, or the summary for the overall stage',
+    example: 'Strong backend experience with NestJS...',
+  })
+  feedback: string;
+
+  @ApiProperty({
+    description: 'Per-criterion scores, reasoning and evidence',
+    nullable: true,
+  })
+  criteria: unknown;
+
+  @ApiProperty({
+    description: 'Run timestamp',
+    example: '2025-11-24T10:30:00.000Z',
+  })
+  createdAt: Date;
+}
+
+export class EvaluationRunListResponseDto {
+  @ApiProperty({
+    description: 'Job ID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  jobId: string;
+
+  @ApiProperty({
+    description: 'Total number of runs',
+    example: 6,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: 'Runs, oldest first',
+    type: [EvaluationRunResponseDto],
+  })
+  runs: EvaluationRunResponseDto[];
+}
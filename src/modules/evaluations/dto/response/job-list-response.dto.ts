@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { JobStatus } from 'generated/prisma';
+
+export class JobSummaryDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ enum: JobStatus, example: JobStatus.COMPLETED })
+  status: JobStatus;
+
+  @ApiProperty({ example: 'completed', nullable: true })
+  currentStage: string | null;
+
+  @ApiProperty({ example: 'Backend Engineer' })
+  jobTitle: string;
+
+  @ApiProperty({ example: 'Jane Doe', nullable: true })
+  candidateLabel: string | null;
+
+  @ApiProperty({
+    example: '550e8400-e29b-41d4-a716-446655440001',
+    nullable: true,
+  })
+  positionId: string | null;
+
+  @ApiProperty({
+    example: '550e8400-e29b-41d4-a716-446655440002',
+    nullable: true,
+  })
+  batchId: string | null;
+
+  @ApiProperty({ example: 0.82, nullable: true })
+  cvMatchRate: number | null;
+
+  @ApiProperty({ example: 4.5, nullable: true })
+  projectScore: number | null;
+
+  @ApiProperty({
+    description:
+      'Equal-weight composite of cv_match_rate and project_score, once both are known',
+    example: 0.85,
+    nullable: true,
+  })
+  overallScore: number | null;
+
+  @ApiProperty({ example: '2025-11-16T10:30:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-11-16T10:32:10.000Z', nullable: true })
+  completedAt: Date | null;
+}
+
+export class JobListResponseDto {
+  @ApiProperty({ type: [JobSummaryDto] })
+  jobs: JobSummaryDto[];
+
+  @ApiProperty({
+    description:
+      'Opaque token to pass as `cursor` for the next page; null on the last page',
+    example: 'WzAuODIsIjU1MGU4NDAwLWUyOWItNDFkNC1hNzE2LTQ0NjY1NTQ0MDAwMCJd',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
@@ -0,0 +1,67 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SystemDocItemDto } from './system-doc-response.dto';
+import { RubricItemDto } from './rubric-response.dto';
+
+export class PositionResponseDto {
+  @ApiProperty({
+    description: 'Unique identifier for the position',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Job title of the position',
+    example: 'Backend Engineer',
+  })
+  title: string;
+
+  @ApiProperty({
+    description: 'Job description used for CV evaluation',
+    type: SystemDocItemDto,
+  })
+  jobDescription: SystemDocItemDto;
+
+  @ApiProperty({
+    description: 'Case study used for project evaluation',
+    type: SystemDocItemDto,
+  })
+  caseStudy: SystemDocItemDto;
+
+  @ApiProperty({
+    description: 'Rubric version used for CV evaluation',
+    type: RubricItemDto,
+  })
+  cvRubric: RubricItemDto;
+
+  @ApiProperty({
+    description: 'Rubric version used for project evaluation',
+    type: RubricItemDto,
+  })
+  projectRubric: RubricItemDto;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2025-11-16T10:30:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2025-11-16T10:30:00.000Z',
+  })
+  updatedAt: Date;
+}
+
+export class PositionListResponseDto {
+  @ApiProperty({
+    description: 'Total number of positions',
+    example: 3,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: 'List of positions',
+    type: [PositionResponseDto],
+  })
+  positions: PositionResponseDto[];
+}
@@ -0,0 +1,82 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RankedCandidateDto } from './batch-response.dto';
+import { EvaluationReportDto } from './evaluation-job-response.dto';
+
+export class RankingResponseDto {
+  @ApiProperty({ example: 'Backend Engineer' })
+  jobTitle: string;
+
+  @ApiProperty({
+    description: 'Share of the composite score taken by cv_match_rate',
+    example: 0.5,
+  })
+  cvWeight: number;
+
+  @ApiProperty({
+    description: 'Completed jobs matching the filters before the limit',
+    example: 42,
+  })
+  total: number;
+
+  @ApiProperty({ type: [RankedCandidateDto] })
+  candidates: RankedCandidateDto[];
+}
+
+export class ComparedCandidateDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  jobId: string;
+
+  @ApiProperty({ example: 'Jane Doe', nullable: true })
+  candidateLabel: string | null;
+
+  @ApiProperty({ example: 'Backend Engineer' })
+  jobTitle: string;
+
+  @ApiProperty({ example: 0.79 })
+  overallScore: number;
+
+  @ApiProperty({ type: EvaluationReportDto })
+  result: EvaluationReportDto;
+}
+
+export class CriterionScoreDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  jobId: string;
+
+  @ApiProperty({
+    description:
+      'Score on a 1-5 scale, null when the job has no such criterion',
+    example: 4,
+    nullable: true,
+  })
+  score: number | null;
+
+  @ApiProperty({
+    description: 'Score minus the score of the first job',
+    example: -1,
+    nullable: true,
+  })
+  delta: number | null;
+}
+
+export class CriterionComparisonDto {
+  @ApiProperty({ enum: ['cv', 'project'], example: 'cv' })
+  kind: 'cv' | 'project';
+
+  @ApiProperty({ example: 'technical_skills' })
+  name: string;
+
+  @ApiProperty({ example: 'Technical Skills Match' })
+  displayName: string;
+
+  @ApiProperty({ type: [CriterionScoreDto] })
+  scores: CriterionScoreDto[];
+}
+
+export class CompareResponseDto {
+  @ApiProperty({ type: [ComparedCandidateDto] })
+  candidates: ComparedCandidateDto[];
+
+  @ApiProperty({ type: [CriterionComparisonDto] })
+  criteria: CriterionComparisonDto[];
+}
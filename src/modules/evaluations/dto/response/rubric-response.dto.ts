@@ -0,0 +1,118 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RubricKind, RubricSource } from 'generated/prisma';
+
+export class RubricCriterionDto {
+  @ApiProperty({
+    description: 'Criterion name in snake_case format',
+    example: 'technical_skills_match',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Human-readable criterion name',
+    example: 'Technical Skills Match',
+  })
+  displayName: string;
+
+  @ApiProperty({
+    description: 'Weight as percentage. Weights of all criteria sum to 100.',
+    example: 40,
+  })
+  weight: number;
+
+  @ApiProperty({
+    description: 'What this criterion evaluates',
+    example: 'Alignment with job requirements (backend, databases, APIs)',
+  })
+  description: string;
+
+  @ApiProperty({
+    description: 'Scoring descriptions for levels 1-5',
+    example: {
+      '1': 'Irrelevant skills',
+      '2': 'Few overlaps',
+      '3': 'Partial match',
+      '4': 'Strong match',
+      '5': 'Excellent match',
+    },
+  })
+  scoringGuide: Record<'1' | '2' | '3' | '4' | '5', string>;
+}
+
+export class RubricItemDto {
+  @ApiProperty({
+    description: 'Unique identifier for the rubric version',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'What the rubric evaluates',
+    enum: RubricKind,
+    example: RubricKind.CV,
+  })
+  kind: RubricKind;
+
+  @ApiProperty({
+    description: 'Job title the rubric applies to, null when shared',
+    example: 'Backend Engineer',
+    nullable: true,
+    type: String,
+  })
+  jobTitle: string | null;
+
+  @ApiProperty({
+    description: 'Version number within the kind and job title',
+    example: 1,
+  })
+  version: number;
+
+  @ApiProperty({
+    description: 'How the rubric was created',
+    enum: RubricSource,
+    example: RubricSource.MANUAL,
+  })
+  source: RubricSource;
+
+  @ApiProperty({
+    description: 'Original filename for imported rubrics',
+    example: 'cv-rubric.pdf',
+    nullable: true,
+    type: String,
+  })
+  sourceFilename: string | null;
+
+  @ApiProperty({
+    description: 'Whether evaluations use this version',
+    example: true,
+  })
+  isActive: boolean;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2025-11-16T10:30:00.000Z',
+  })
+  createdAt: Date;
+}
+
+export class RubricResponseDto extends RubricItemDto {
+  @ApiProperty({
+    description: 'Evaluation criteria',
+    type: [RubricCriterionDto],
+  })
+  criteria: RubricCriterionDto[];
+}
+
+export class RubricListResponseDto {
+  @ApiProperty({
+    description: 'Total number of rubrics',
+    example: 2,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: 'List of rubric versions',
+    type: [RubricItemDto],
+  })
+  rubrics: RubricItemDto[];
+}
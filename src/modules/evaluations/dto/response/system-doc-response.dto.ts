@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SystemDocType } from '../request/system-doc-metadata.dto';
+
+export class SystemDocItemDto {
+  @ApiProperty({
+    description: 'Unique identifier for the system document',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Type of the system document',
+    enum: SystemDocType,
+    example: SystemDocType.JOB_DESCRIPTION,
+  })
+  type: string;
+
+  @ApiProperty({
+    description: 'Job title the document applies to, null when shared',
+    example: 'Backend Engineer',
+    nullable: true,
+    type: String,
+  })
+  jobTitle: string | null;
+
+  @ApiProperty({
+    description: 'Version identifier',
+    example: '1.0',
+  })
+  version: string;
+
+  @ApiProperty({
+    description: 'Original filename',
+    example: 'job-description.pdf',
+  })
+  filename: string;
+
+  @ApiProperty({
+    description:
+      'Whether this is the active version for its type and job title',
+    example: true,
+  })
+  isActive: boolean;
+
+  @ApiProperty({
+    description: 'Upload timestamp',
+    example: '2025-11-16T10:30:00.000Z',
+  })
+  createdAt: Date;
+}
+
+export class SystemDocDetailDto extends SystemDocItemDto {
+  @ApiProperty({
+    description: 'Text extracted from the document',
+    example: 'We are looking for a Backend Engineer...',
+  })
+  content: string;
+
+  @ApiProperty({
+    description: 'Presigned URL to download the original file',
+    example: 'https://storage.example.com/system-docs/...',
+  })
+  url: string;
+}
+
+export class SystemDocListResponseDto {
+  @ApiProperty({
+    description: 'Total number of documents',
+    example: 3,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: 'List of system documents',
+    type: [SystemDocItemDto],
+  })
+  documents: SystemDocItemDto[];
+}
@@ -3,10 +3,17 @@ import { SystemDocMetadataDto } from '../request/system-doc-metadata.dto';
 
 export class UploadedDocumentDto {
   @ApiProperty({
-    description: 'Ragie document ID',
+    description: 'Document ID assigned by the retrieval backend',
     example: 'ragie_doc_123456',
   })
-  ragieId: string;
+  retrievalId: string;
+
+  @ApiProperty({
+    description:
+      'Whether this is the active version for its type and job title',
+    example: true,
+  })
+  isActive: boolean;
 
   @ApiProperty({
     description: 'Original filename',
@@ -17,12 +24,13 @@ export class UploadedDocumentDto {
   @ApiProperty({
     description: 'Document metadata with auto-generated ID',
     example: {
-      id: 'job-desc-1731744000000',
+      id: '550e8400-e29b-41d4-a716-446655440000',
       type: 'job_description',
       version: '1.0',
+      jobTitle: 'Backend Engineer',
     },
   })
-  metadata: SystemDocMetadataDto & { id: string };
+  metadata: SystemDocMetadataDto & { id: string; version: string };
 }
 
 export class SystemDocUploadResponseDto {
@@ -4,10 +4,24 @@ import { ConfigModule } from '@nestjs/config';
 import { EvaluationsService } from './services/evaluations.service';
 import { EvaluationDocumentsService } from './services/evaluation-documents.service';
 import { SystemDocumentsService } from './services/system-documents.service';
+import { RubricsService } from './services/rubrics.service';
+import { PositionsService } from './services/positions.service';
+import { JobEventsService } from './services/job-events.service';
+import { BatchesService } from './services/batches.service';
+import { RankingsService } from './services/rankings.service';
+import { JobsService } from './services/jobs.service';
 import { EvaluationsController } from './controllers/evaluations.controller';
 import { SystemDocumentsController } from './controllers/system-documents.controller';
+import { RubricsController } from './controllers/rubrics.controller';
+import { PositionsController } from './controllers/positions.controller';
+import { BatchesController } from './controllers/batches.controller';
+import { RankingsController } from './controllers/rankings.controller';
+import { JobsController } from './controllers/jobs.controller';
 import { StorageModule } from '../storage/storage.module';
 import { PrismaModule } from '../../prisma/prisma.module';
+import { LlmModule } from '../llm/llm.module';
+import { RetrievalModule } from '../retrieval/retrieval.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 import {
   CvEvaluationProcessor,
   ProjectEvaluationProcessor,
@@ -19,6 +33,9 @@ import { OverallScoringProcessor } from './processors/overall-scoring.processor'
     StorageModule,
     PrismaModule,
     ConfigModule,
+    LlmModule,
+    RetrievalModule,
+    WebhooksModule,
     BullModule.registerQueue(
       { name: 'cv-evaluation' },
       { name: 'project-evaluation' },
@@ -26,10 +43,24 @@ import { OverallScoringProcessor } from './processors/overall-scoring.processor'
     ),
     BullModule.registerFlowProducer({ name: 'evaluation-flow' }),
   ],
-  controllers: [EvaluationsController, SystemDocumentsController],
+  controllers: [
+    EvaluationsController,
+    SystemDocumentsController,
+    RubricsController,
+    PositionsController,
+    BatchesController,
+    RankingsController,
+    JobsController,
+  ],
   providers: [
     EvaluationsService,
     SystemDocumentsService,
+    RubricsService,
+    PositionsService,
+    JobEventsService,
+    BatchesService,
+    RankingsService,
+    JobsService,
     EvaluationDocumentsService,
 
     // processors
@@ -2,20 +2,31 @@ import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
 import { EvaluationsService } from '../services/evaluations.service';
-import { FileType } from 'generated/prisma/wasm';
+import { FileType, RunStage } from 'generated/prisma/wasm';
+import { ModelOverrides } from '../../llm/model-registry.service';
+import { WebhookEvent } from '../../webhooks/webhook-event.enum';
+import { failFastIfPermanent } from '../utils/stage-failure.util';
 
 export interface CvEvaluationJobData {
   jobId: string;
   userId: string;
+  organizationId?: string;
   cvFileId: string;
   jobTitle: string;
+  rubricId?: string;
+  jobDescriptionId?: string;
+  models?: ModelOverrides;
 }
 
 export interface ProjectEvaluationJobData {
   jobId: string;
   userId: string;
+  organizationId?: string;
   projectFileId: string;
   jobTitle: string;
+  rubricId?: string;
+  caseStudyId?: string;
+  models?: ModelOverrides;
 }
 
 @Processor('cv-evaluation', {
@@ -29,30 +40,61 @@ export class CvEvaluationProcessor extends WorkerHost {
   }
 
   async process(job: Job<CvEvaluationJobData>): Promise<void> {
-    const { jobId, userId, cvFileId, jobTitle } = job.data;
+    const {
+      jobId,
+      userId,
+      organizationId,
+      cvFileId,
+      jobTitle,
+      rubricId,
+      jobDescriptionId,
+      models,
+    } = job.data;
     this.logger.log(`Processing CV evaluation for job ${jobId}`);
 
+    if (await this.evaluationsService.isCancelled(jobId)) {
+      this.logger.log(`Skipping CV evaluation for cancelled job ${jobId}`);
+      return;
+    }
+
     try {
       await this.evaluationsService.evaluate(
         FileType.CV,
-        userId,
+        { userId, organizationId },
         cvFileId,
         jobTitle,
-        jobId,
+        { jobId, models, rubricId, contextDocumentId: jobDescriptionId },
       );
       this.logger.log(`CV evaluation completed for job ${jobId}`);
     } catch (error) {
+      if (await this.evaluationsService.isCancelled(jobId)) {
+        this.logger.log(`CV evaluation stopped, job ${jobId} was cancelled`);
+        return;
+      }
       this.logger.error(`CV evaluation failed for job ${jobId}:`, error);
-      throw error;
+      throw failFastIfPermanent(error);
     }
   }
 
   @OnWorkerEvent('failed')
-  onFailed(job: Job<CvEvaluationJobData>, error: Error) {
+  async onFailed(job: Job<CvEvaluationJobData>, error: Error) {
     this.logger.error(
       `Job ${job.id} failed after ${job.attemptsMade} attempts:`,
       error,
     );
+    const failed = await this.evaluationsService.recordStageFailure(
+      job.data.jobId,
+      RunStage.CV,
+      error,
+      job.attemptsMade,
+      job.opts.attempts ?? 1,
+    );
+    if (failed) {
+      await this.evaluationsService.notifyWebhooks(
+        job.data.jobId,
+        WebhookEvent.EVALUATION_FAILED,
+      );
+    }
   }
 
   @OnWorkerEvent('completed')
@@ -72,21 +114,41 @@ export class ProjectEvaluationProcessor extends WorkerHost {
   }
 
   async process(job: Job<ProjectEvaluationJobData>): Promise<void> {
-    const { jobId, userId, projectFileId, jobTitle } = job.data;
+    const {
+      jobId,
+      userId,
+      organizationId,
+      projectFileId,
+      jobTitle,
+      rubricId,
+      caseStudyId,
+      models,
+    } = job.data;
     this.logger.log(`Processing project evaluation for job ${jobId}`);
 
+    if (await this.evaluationsService.isCancelled(jobId)) {
+      this.logger.log(`Skipping project evaluation for cancelled job ${jobId}`);
+      return;
+    }
+
     try {
       await this.evaluationsService.evaluate(
         FileType.PROJECT_REPORT,
-        userId,
+        { userId, organizationId },
         projectFileId,
         jobTitle,
-        jobId,
+        { jobId, models, rubricId, contextDocumentId: caseStudyId },
       );
       this.logger.log(`Project evaluation completed for job ${jobId}`);
     } catch (error) {
+      if (await this.evaluationsService.isCancelled(jobId)) {
+        this.logger.log(
+          `Project evaluation stopped, job ${jobId} was cancelled`,
+        );
+        return;
+      }
       this.logger.error(`Project evaluation failed for job ${jobId}:`, error);
-      throw error;
+      throw failFastIfPermanent(error);
     }
   }
 
@@ -96,7 +158,19 @@ export class ProjectEvaluationProcessor extends WorkerHost {
       `Job ${job.id} failed after ${job.attemptsMade} attempts:`,
       error,
     );
-    await this.evaluationsService.updateFailedJob(job.data.jobId);
+    const failed = await this.evaluationsService.recordStageFailure(
+      job.data.jobId,
+      RunStage.PROJECT,
+      error,
+      job.attemptsMade,
+      job.opts.attempts ?? 1,
+    );
+    if (failed) {
+      await this.evaluationsService.notifyWebhooks(
+        job.data.jobId,
+        WebhookEvent.EVALUATION_FAILED,
+      );
+    }
   }
 
   @OnWorkerEvent('completed')
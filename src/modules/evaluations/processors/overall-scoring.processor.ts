@@ -2,9 +2,14 @@ import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
 import { EvaluationsService } from '../services/evaluations.service';
+import { ModelOverrides } from '../../llm/model-registry.service';
+import { WebhookEvent } from '../../webhooks/webhook-event.enum';
+import { failFastIfPermanent } from '../utils/stage-failure.util';
+import { RunStage } from 'generated/prisma';
 
 export interface OverallScoringJobData {
   jobId: string;
+  models?: ModelOverrides;
 }
 
 @Processor('overall-scoring', {
@@ -18,15 +23,24 @@ export class OverallScoringProcessor extends WorkerHost {
   }
 
   async process(job: Job<OverallScoringJobData>): Promise<void> {
-    const { jobId } = job.data;
+    const { jobId, models } = job.data;
     this.logger.log(`Processing overall scoring for job ${jobId}`);
 
+    if (await this.evaluationsService.isCancelled(jobId)) {
+      this.logger.log(`Skipping overall scoring for cancelled job ${jobId}`);
+      return;
+    }
+
     try {
-      await this.evaluationsService.evaluateCandidate(jobId);
+      await this.evaluationsService.evaluateCandidate(jobId, models);
       this.logger.log(`Overall scoring completed for job ${jobId}`);
     } catch (error) {
+      if (await this.evaluationsService.isCancelled(jobId)) {
+        this.logger.log(`Overall scoring stopped, job ${jobId} was cancelled`);
+        return;
+      }
       this.logger.error(`Overall scoring failed for job ${jobId}:`, error);
-      throw error;
+      throw failFastIfPermanent(error);
     }
   }
 
@@ -36,11 +50,28 @@ export class OverallScoringProcessor extends WorkerHost {
       `Job ${job.id} failed after ${job.attemptsMade} attempts:`,
       error,
     );
-    await this.evaluationsService.updateFailedJob(job.data.jobId);
+    const failed = await this.evaluationsService.recordStageFailure(
+      job.data.jobId,
+      RunStage.OVERALL,
+      error,
+      job.attemptsMade,
+      job.opts.attempts ?? 1,
+    );
+    if (failed) {
+      await this.evaluationsService.notifyWebhooks(
+        job.data.jobId,
+        WebhookEvent.EVALUATION_FAILED,
+      );
+    }
   }
 
   @OnWorkerEvent('completed')
-  onCompleted(job: Job<OverallScoringJobData>) {
+  async onCompleted(job: Job<OverallScoringJobData>) {
     this.logger.log(`Job ${job.id} completed successfully`);
+    if (await this.evaluationsService.isCancelled(job.data.jobId)) return;
+    await this.evaluationsService.notifyWebhooks(
+      job.data.jobId,
+      WebhookEvent.EVALUATION_COMPLETED,
+    );
   }
 }
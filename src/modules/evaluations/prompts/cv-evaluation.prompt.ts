@@ -37,6 +37,7 @@ INSTRUCTIONS:
 - Evaluate the CV against EACH criterion listed above
 - Assign a score from 1-5 for each criterion based on the exact scoring guide provided
 - Provide clear reasoning for each score (minimum 20 characters)
+- Support each score with up to 3 short excerpts copied verbatim from the CV as evidence
 - Write comprehensive overall feedback (minimum 100 characters)
 - Use the exact criterion names (snake_case format) as provided in the rubric
 
@@ -44,6 +45,7 @@ IMPORTANT:
 - Be objective and thorough in your evaluation
 - Base your scores strictly on the scoring guide descriptions
 - Justify each score with specific evidence from the CV
+- Evidence quotes must appear word for word in the CV; never paraphrase or invent them
 - Consider the weight of each criterion in your overall assessment
 
 Return your evaluation in the specified JSON format.`;
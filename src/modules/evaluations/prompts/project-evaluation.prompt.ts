@@ -34,13 +34,14 @@ ${projectText}
 1. Read the case study brief to understand the problem context and requirements
 2. Carefully review the project report against each criterion in the rubric
 3. Use the provided scoring guide (1-5 scale) to assign scores based on actual evidence in the project
-4. Provide specific reasoning that references concrete examples from the project report
+4. Provide specific reasoning that references concrete examples from the project report, and support each score with up to 3 short excerpts copied verbatim from the report as evidence
 5. Consider how well the project addresses the case study requirements
 6. Ensure your evaluation is fair, consistent, and evidence-based
 
 ## Important Guidelines
 - Score based on what is actually present in the project report, not assumptions
 - Reference specific sections, methodologies, or findings from the report
+- Evidence quotes must appear word for word in the report; never paraphrase or invent them
 - Consider alignment with the case study brief and problem requirements
 - Be objective and constructive in your feedback
 - Highlight both strengths and areas for improvement
@@ -0,0 +1,37 @@
+export function generateCvRubricExtractionPrompt(rawRubric: string): string {
+  return `Extract the CV evaluation rubric from the following content.
+
+RUBRIC CONTENT:
+${rawRubric}
+
+INSTRUCTIONS:
+- This is a rubric for evaluating candidate CVs
+- Extract each CV evaluation criterion with its name, weight, description, and scoring guide
+- Convert criterion names to snake_case format (e.g., "Technical Skills Match" -> "technical_skills_match")
+- Keep displayName as the original human-readable format
+- Extract the exact scoring descriptions from the rubric
+- Weights should be numbers (e.g., 40 for 40%) and must sum to 100%
+- Scoring guide must have clear descriptions for CV evaluation scores 1 to 5
+
+Return a structured CV evaluation rubric with all criteria properly weighted.`;
+}
+
+export function generateProjectRubricExtractionPrompt(
+  rawRubric: string,
+): string {
+  return `Extract the project evaluation rubric from the following content.
+
+RUBRIC CONTENT:
+${rawRubric}
+
+INSTRUCTIONS:
+- This is a rubric for evaluating student project reports
+- Extract each project evaluation criterion with its name, weight, description, and scoring guide
+- Convert criterion names to snake_case format (e.g., "Problem Analysis" -> "problem_analysis")
+- Keep displayName as the original human-readable format
+- Extract the exact scoring descriptions from the rubric
+- Weights should be numbers (e.g., 25 for 25%) and must sum to 100%
+- Scoring guide must have clear descriptions for project scores 1 to 5
+
+Return a structured project evaluation rubric with all criteria properly weighted.`;
+}
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { Rubric } from './rubric.schema';
+import { EvidenceCitation } from '../utils/evidence.util';
 
 export function generateEvaluationSchema(rubric: Rubric): z.ZodType {
   const criteriaSchemaShape: Record<string, z.ZodType> = {};
@@ -16,6 +17,19 @@ export function generateEvaluationSchema(rubric: Rubric): z.ZodType {
         .string()
         .min(20)
         .describe(`Justification for the ${criterion.displayName} score`),
+      evidence: z
+        .array(
+          z.object({
+            quote: z
+              .string()
+              .min(1)
+              .describe('Excerpt copied verbatim from the document'),
+          }),
+        )
+        .max(3)
+        .describe(
+          `Verbatim excerpts from the document supporting the ${criterion.displayName} score`,
+        ),
     });
   });
 
@@ -38,6 +52,8 @@ export interface EvalResult {
       reasoning: string;
       weight: number;
       displayName: string;
+      /** Absent on results stored before evidence was collected */
+      evidence?: EvidenceCitation[];
     }
   >;
   weighted_score: number;
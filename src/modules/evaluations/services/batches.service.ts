@@ -0,0 +1,323 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { posix } from 'path';
+import { JobStatus } from 'generated/prisma';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { readZipEntries, ZipEntry } from 'src/common/utils/zip.util';
+import { OwnerScope } from 'src/common/utils/owner-scope.util';
+import { EvaluationsService, JobContext } from './evaluations.service';
+import { EvaluationDocumentsService } from './evaluation-documents.service';
+import { WebhooksService } from '../../webhooks/webhooks.service';
+import { ModelRegistryService } from '../../llm/model-registry.service';
+import {
+  BatchCandidateDto,
+  CreateBatchDto,
+  MAX_BATCH_SIZE,
+} from '../dto/request/create-batch.dto';
+import { UploadBatchDto } from '../dto/request/upload-batch.dto';
+import { compositeScore, hasScores } from '../utils/scoring.util';
+import {
+  BatchProgressDto,
+  BatchResponseDto,
+  BatchResultsResponseDto,
+} from '../dto/response/batch-response.dto';
+
+interface ArchivedCandidate {
+  label: string;
+  cv: ZipEntry;
+  report: ZipEntry;
+}
+
+@Injectable()
+export class BatchesService {
+  private readonly logger = new Logger(BatchesService.name);
+  private readonly MAX_EXTRACTED_BYTES = 500 * 1024 * 1024;
+  private readonly jobsPerMinute: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly evaluationsService: EvaluationsService,
+    private readonly documentService: EvaluationDocumentsService,
+    private readonly webhooksService: WebhooksService,
+    private readonly modelRegistry: ModelRegistryService,
+    configService: ConfigService,
+  ) {
+    this.jobsPerMinute = Number(
+      configService.get<string>('BATCH_MAX_JOBS_PER_MINUTE') || 20,
+    );
+  }
+
+  async createBatch(
+    scope: OwnerScope,
+    request: CreateBatchDto,
+  ): Promise<BatchResponseDto> {
+    this.modelRegistry.assertOverridesAllowed(request.models);
+    await this.webhooksService.assertCanSignCallbacks(
+      scope.userId,
+      request.callbackUrl,
+    );
+    await this.documentService.validateBatchSubmission(
+      scope,
+      request.candidates,
+    );
+    const context = await this.evaluationsService.resolveJobContext(request);
+    return this.queueBatch(scope, request, request.candidates, context);
+  }
+
+  /**
+   * Create a batch from a ZIP with one folder per candidate, each holding a
+   * CV (`cv*.pdf` or `resume*.pdf`) and a report (`report*.pdf` or
+   * `project*.pdf`). The folder name becomes the candidate label.
+   */
+  async createBatchFromArchive(
+    scope: OwnerScope,
+    file: Express.Multer.File,
+    request: UploadBatchDto,
+  ): Promise<BatchResponseDto> {
+    const archived = this.readArchive(file);
+    await this.webhooksService.assertCanSignCallbacks(
+      scope.userId,
+      request.callbackUrl,
+    );
+    const context = await this.evaluationsService.resolveJobContext(request);
+
+    const candidates: BatchCandidateDto[] = [];
+    try {
+      for (const candidate of archived) {
+        const uploaded = await this.documentService.uploadFiles(
+          scope,
+          this.toUploadedFile(candidate.cv),
+          this.toUploadedFile(candidate.report),
+        );
+        candidates.push({
+          cvFileId: uploaded.cv.id,
+          reportFileId: uploaded.report.id,
+          label: candidate.label,
+        });
+      }
+      this.logger.log(
+        `Uploaded ${candidates.length} candidates from ${file.originalname}`,
+      );
+      await this.documentService.validateBatchSubmission(scope, candidates);
+    } catch (error) {
+      // Nothing was queued, so the uploaded files would only be orphans
+      await this.documentService
+        .deleteFiles(
+          candidates.flatMap(({ cvFileId, reportFileId }) => [
+            cvFileId,
+            reportFileId,
+          ]),
+        )
+        .catch((cleanupError) =>
+          this.logger.error(
+            `Failed to remove files of rejected archive ${file.originalname}`,
+            cleanupError,
+          ),
+        );
+      throw error;
+    }
+
+    return this.queueBatch(scope, request, candidates, context);
+  }
+
+  async getBatch(id: string): Promise<BatchResponseDto> {
+    const batch = await this.prisma.batch.findUnique({
+      where: { id },
+      include: {
+        jobs: {
+          select: { id: true, candidateLabel: true, status: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!batch) {
+      throw new NotFoundException(`Batch with ID ${id} not found`);
+    }
+
+    return {
+      id: batch.id,
+      jobTitle: batch.jobTitle,
+      positionId: batch.positionId,
+      createdAt: batch.createdAt,
+      progress: this.toProgress(batch.jobs.map((job) => job.status)),
+      jobs: batch.jobs,
+    };
+  }
+
+  async getBatchResults(id: string): Promise<BatchResultsResponseDto> {
+    const batch = await this.prisma.batch.findUnique({
+      where: { id },
+      include: { jobs: { include: { result: true } } },
+    });
+
+    if (!batch) {
+      throw new NotFoundException(`Batch with ID ${id} not found`);
+    }
+
+    const results = batch.jobs
+      .flatMap(({ result, ...job }) => {
+        if (job.status !== JobStatus.COMPLETED || !hasScores(result)) {
+          return [];
+        }
+
+        return [
+          {
+            jobId: job.id,
+            candidateLabel: job.candidateLabel,
+            overallScore: compositeScore(
+              result.cvMatchRate,
+              result.projectScore,
+            ),
+            result: {
+              cv_match_rate: result.cvMatchRate,
+              cv_feedback: result.cvFeedback || '',
+              project_score: result.projectScore,
+              project_feedback: result.projectFeedback || '',
+              overall_summary: result.overallSummary || '',
+            },
+          },
+        ];
+      })
+      .sort(
+        (a, b) =>
+          b.overallScore - a.overallScore ||
+          b.result.cv_match_rate - a.result.cv_match_rate,
+      )
+      .map((candidate, index) => ({ rank: index + 1, ...candidate }));
+
+    return {
+      batchId: batch.id,
+      progress: this.toProgress(batch.jobs.map((job) => job.status)),
+      results,
+    };
+  }
+
+  /**
+   * Queue one evaluation per candidate. Jobs are released in groups of
+   * BATCH_MAX_JOBS_PER_MINUTE a minute apart so a large pool does not starve
+   * single evaluations or hit model rate limits.
+   */
+  private async queueBatch(
+    scope: OwnerScope,
+    request: Pick<CreateBatchDto, 'models' | 'callbackUrl'>,
+    candidates: BatchCandidateDto[],
+    context: JobContext,
+  ): Promise<BatchResponseDto> {
+    const batch = await this.prisma.batch.create({
+      data: {
+        userId: scope.userId,
+        organizationId: scope.organizationId,
+        jobTitle: context.jobTitle,
+        positionId: context.position?.id,
+      },
+    });
+
+    for (const [index, candidate] of candidates.entries()) {
+      await this.evaluationsService.queueJob(
+        scope,
+        {
+          cvFileId: candidate.cvFileId,
+          reportFileId: candidate.reportFileId,
+          models: request.models,
+          callbackUrl: request.callbackUrl,
+        },
+        context,
+        {
+          batchId: batch.id,
+          candidateLabel: candidate.label,
+          delay: Math.floor(index / this.jobsPerMinute) * 60_000,
+        },
+      );
+    }
+
+    this.logger.log(
+      `Queued batch ${batch.id} with ${candidates.length} candidates for ${context.jobTitle}`,
+    );
+
+    return this.getBatch(batch.id);
+  }
+
+  private readArchive(file: Express.Multer.File): ArchivedCandidate[] {
+    let entries: ZipEntry[];
+    try {
+      entries = readZipEntries(file.buffer, this.MAX_EXTRACTED_BYTES);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid ZIP file: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    const folders = new Map<string, ZipEntry[]>();
+    entries
+      .filter((entry) => entry.name.toLowerCase().endsWith('.pdf'))
+      .forEach((entry) => {
+        const folder = posix.dirname(entry.name);
+        folders.set(folder, [...(folders.get(folder) ?? []), entry]);
+      });
+
+    const candidates = [...folders.entries()].map(([folder, files]) => {
+      const find = (pattern: RegExp) =>
+        files.find((file) => pattern.test(posix.basename(file.name)));
+      const cv = find(/^(cv|resume)/i);
+      const report = find(/^(report|project)/i);
+
+      if (folder === '.' || !cv || !report) {
+        throw new BadRequestException(
+          `Each candidate needs its own folder with a cv*.pdf and a report*.pdf; check "${folder}"`,
+        );
+      }
+      return { label: posix.basename(folder), cv, report };
+    });
+
+    if (candidates.length === 0) {
+      throw new BadRequestException('ZIP file contains no candidate folders');
+    }
+    if (candidates.length > MAX_BATCH_SIZE) {
+      throw new BadRequestException(
+        `A batch can hold at most ${MAX_BATCH_SIZE} candidates`,
+      );
+    }
+
+    return candidates;
+  }
+
+  private toUploadedFile(entry: ZipEntry): Express.Multer.File {
+    return {
+      fieldname: 'file',
+      originalname: posix.basename(entry.name),
+      encoding: '7bit',
+      mimetype: 'application/pdf',
+      size: entry.data.length,
+      buffer: entry.data,
+    } as Express.Multer.File;
+  }
+
+  private toProgress(statuses: JobStatus[]): BatchProgressDto {
+    const count = (status: JobStatus) =>
+      statuses.filter((value) => value === status).length;
+    const completed = count(JobStatus.COMPLETED);
+    const failed = count(JobStatus.FAILED);
+    const cancelled = count(JobStatus.CANCELLED);
+
+    return {
+      total: statuses.length,
+      queued: count(JobStatus.QUEUED),
+      processing: count(JobStatus.PROCESSING),
+      completed,
+      failed,
+      cancelled,
+      percentDone:
+        statuses.length > 0
+          ? Math.round(
+              ((completed + failed + cancelled) / statuses.length) * 100,
+            ) / 100
+          : 0,
+    };
+  }
+}
@@ -4,18 +4,32 @@ import {
   NotFoundException,
   InternalServerErrorException,
   Logger,
+  HttpException,
+  RequestTimeoutException,
+  UnprocessableEntityException,
 } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { StorageService } from '../../storage/storage.service';
 import { $Enums, FileType } from '../../../../generated/prisma';
 import { FileUploadItemDto } from '../dto/response/file-upload-response.dto';
-import { UserFilesResponseDto } from '../dto/response/user-files-response.dto';
-import { PDFParse } from 'pdf-parse';
+import {
+  UserFileItemDto,
+  UserFilesResponseDto,
+} from '../dto/response/user-files-response.dto';
+import { extractPdfText } from '../../../common/utils/pdf.util';
+import { FieldError } from '../../../common/types/error-response.interface';
+import {
+  OwnerScope,
+  ownerFilter,
+} from '../../../common/utils/owner-scope.util';
 
 @Injectable()
 export class EvaluationDocumentsService {
   private readonly logger = new Logger(EvaluationDocumentsService.name);
   private readonly MAX_SIZE_BYTES = 10 * 1024 * 1024;
+  /** Candidates of a batch whose PDFs are checked at the same time */
+  private readonly BATCH_VALIDATION_CONCURRENCY = 6;
+  private readonly BATCH_VALIDATION_TIMEOUT_MS = 2 * 60 * 1000;
 
   constructor(
     private readonly storageService: StorageService,
@@ -23,7 +37,7 @@ export class EvaluationDocumentsService {
   ) {}
 
   async uploadFiles(
-    userId: string,
+    scope: OwnerScope,
     cvFile: Express.Multer.File,
     reportFile: Express.Multer.File,
   ): Promise<{ cv: FileUploadItemDto; report: FileUploadItemDto }> {
@@ -40,6 +54,7 @@ export class EvaluationDocumentsService {
       );
     }
 
+    const { userId, organizationId } = scope;
     const cvPath = `files/${userId}/cv/${Date.now()}-${cvFile.originalname}`;
     const reportPath = `files/${userId}/report/${Date.now()}-${reportFile.originalname}`;
 
@@ -67,6 +82,7 @@ export class EvaluationDocumentsService {
         this.prisma.file.create({
           data: {
             userId,
+            organizationId,
             filename: cvFile.originalname,
             path: cvUploadResult.key,
             type: $Enums.FileType.CV,
@@ -75,6 +91,7 @@ export class EvaluationDocumentsService {
         this.prisma.file.create({
           data: {
             userId,
+            organizationId,
             filename: reportFile.originalname,
             path: reportUploadResult.key,
             type: $Enums.FileType.PROJECT_REPORT,
@@ -107,9 +124,9 @@ export class EvaluationDocumentsService {
     }
   }
 
-  async getUserFiles(userId: string): Promise<UserFilesResponseDto> {
+  async getUserFiles(scope: OwnerScope): Promise<UserFilesResponseDto> {
     const files = await this.prisma.file.findMany({
-      where: { userId },
+      where: ownerFilter(scope),
       orderBy: { createdAt: 'desc' },
       select: {
         id: true,
@@ -126,15 +143,178 @@ export class EvaluationDocumentsService {
     };
   }
 
+  async getFile(id: string): Promise<UserFileItemDto> {
+    const file = await this.prisma.file.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        filename: true,
+        type: true,
+        path: true,
+        createdAt: true,
+      },
+    });
+
+    if (!file) {
+      throw new NotFoundException(`File with ID ${id} not found`);
+    }
+
+    return file;
+  }
+
+  /**
+   * Check that the files of a submission belong to the scope, have the
+   * expected type and contain extractable text, so a bad submission fails
+   * now instead of in the worker
+   * @throws UnprocessableEntityException listing every problem by field
+   */
+  async validateSubmission(
+    scope: OwnerScope,
+    files: { cvFileId: string; reportFileId: string },
+  ): Promise<void> {
+    this.throwIfInvalid(await this.findSubmissionErrors(scope, files));
+  }
+
+  /**
+   * Check every candidate of a batch like a single submission, a few at a
+   * time and within a time limit. Fields are keyed by candidate index, e.g.
+   * `candidates[2].cvFileId`.
+   * @throws UnprocessableEntityException listing every problem by field
+   * @throws RequestTimeoutException when the batch takes too long to check
+   */
+  async validateBatchSubmission(
+    scope: OwnerScope,
+    candidates: { cvFileId: string; reportFileId: string }[],
+  ): Promise<void> {
+    const deadline = Date.now() + this.BATCH_VALIDATION_TIMEOUT_MS;
+    const errorsByCandidate: FieldError[][] = [];
+    let next = 0;
+
+    const validateNext = async () => {
+      while (next < candidates.length) {
+        if (Date.now() > deadline) {
+          throw new RequestTimeoutException(
+            `Checking the batch took longer than ${this.BATCH_VALIDATION_TIMEOUT_MS / 1000} seconds, submit fewer candidates at a time`,
+          );
+        }
+        const index = next++;
+        errorsByCandidate[index] = await this.findSubmissionErrors(
+          scope,
+          candidates[index],
+        );
+      }
+    };
+    await Promise.all(
+      Array.from(
+        {
+          length: Math.min(
+            this.BATCH_VALIDATION_CONCURRENCY,
+            candidates.length,
+          ),
+        },
+        validateNext,
+      ),
+    );
+
+    this.throwIfInvalid(
+      errorsByCandidate.flatMap((errors, index) =>
+        errors.map(({ field, message }) => ({
+          field: `candidates[${index}].${field}`,
+          message,
+        })),
+      ),
+    );
+  }
+
+  /** Remove files and their stored objects, e.g. after a rejected batch */
+  async deleteFiles(ids: string[]): Promise<void> {
+    const files = await this.prisma.file.findMany({
+      where: { id: { in: ids } },
+      select: { path: true },
+    });
+    await this.prisma.file.deleteMany({ where: { id: { in: ids } } });
+
+    const results = await Promise.allSettled(
+      files.map((file) => this.storageService.delete(file.path)),
+    );
+    const failed = results.filter((result) => result.status === 'rejected');
+    if (failed.length > 0) {
+      this.logger.warn(
+        `Failed to delete ${failed.length} of ${files.length} stored files`,
+      );
+    }
+  }
+
+  private async findSubmissionErrors(
+    scope: OwnerScope,
+    files: { cvFileId: string; reportFileId: string },
+  ): Promise<FieldError[]> {
+    const expected = [
+      { field: 'cvFileId', id: files.cvFileId, type: FileType.CV },
+      {
+        field: 'reportFileId',
+        id: files.reportFileId,
+        type: FileType.PROJECT_REPORT,
+      },
+    ];
+
+    const owned = await this.prisma.file.findMany({
+      where: {
+        id: { in: expected.map((file) => file.id) },
+        ...ownerFilter(scope),
+      },
+    });
+
+    const results = await Promise.all(
+      expected.map(async ({ field, id, type }): Promise<FieldError | null> => {
+        const file = owned.find((candidate) => candidate.id === id);
+        if (!file) {
+          return { field, message: `File ${id} not found` };
+        }
+        if (file.type !== type) {
+          return {
+            field,
+            message: `File ${id} was uploaded as ${file.type}, expected ${type}`,
+          };
+        }
+
+        try {
+          await this.extractTextFromPdf(file.path);
+          return null;
+        } catch (error) {
+          return {
+            field,
+            message:
+              error instanceof HttpException
+                ? error.message
+                : 'Failed to read PDF file',
+          };
+        }
+      }),
+    );
+
+    return results.filter((error) => error !== null);
+  }
+
+  private throwIfInvalid(errors: FieldError[]): void {
+    if (errors.length > 0) {
+      throw new UnprocessableEntityException({
+        message: errors.map((error) => `${error.field}: ${error.message}`),
+        error: 'Unprocessable Entity',
+        errors,
+      });
+    }
+  }
+
   async loadFileContent(
     fileId: string,
-    userId: string,
+    scope: OwnerScope,
     type?: FileType,
   ): Promise<string> {
     const file = await this.prisma.file.findFirst({
       where: {
         id: fileId,
-        userId,
+        ...ownerFilter(scope),
         type: type ?? undefined,
       },
     });
@@ -147,15 +327,13 @@ export class EvaluationDocumentsService {
   }
 
   private async extractTextFromPdf(filePath: string): Promise<string> {
-    let parser: PDFParse | null = null;
     try {
       this.logger.debug(`Extracting text from PDF: ${filePath}`);
 
       const url = await this.storageService.getUrl(filePath);
-      parser = new PDFParse({ url });
-      const result = await parser.getText();
+      const text = await extractPdfText({ url });
 
-      if (!result.text || result.text.trim().length === 0) {
+      if (!text) {
         this.logger.warn(`No text extracted from PDF: ${filePath}`);
         throw new BadRequestException(
           'PDF file appears to be empty or contains no extractable text',
@@ -163,10 +341,10 @@ export class EvaluationDocumentsService {
       }
 
       this.logger.debug(
-        `Extracted ${result.text.length} characters from PDF: ${filePath}`,
+        `Extracted ${text.length} characters from PDF: ${filePath}`,
       );
 
-      return result.text.trim();
+      return text;
     } catch (error) {
       if (error instanceof BadRequestException) {
         throw error;
@@ -176,10 +354,6 @@ export class EvaluationDocumentsService {
       throw new InternalServerErrorException(
         'Failed to extract text from PDF file',
       );
-    } finally {
-      if (parser) {
-        await parser.destroy();
-      }
     }
   }
 }
@@ -1,10 +1,26 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  MessageEvent,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Observable, Subscription } from 'rxjs';
 import { EvaluationDocumentsService } from './evaluation-documents.service';
 import { SystemDocumentsService } from './system-documents.service';
-import { openai } from '@ai-sdk/openai';
+import { RubricsService } from './rubrics.service';
+import { PositionsService } from './positions.service';
+import { JobEventsService, TERMINAL_STAGES } from './job-events.service';
+import { WebhooksService } from '../../webhooks/webhooks.service';
+import { WebhookEvent } from '../../webhooks/webhook-event.enum';
 import {
   generateObjectWithRetry,
   generateTextWithRetry,
+  LLMError,
 } from 'src/common/utils/llm.util';
 import {
   EvalResult,
@@ -14,16 +30,92 @@ import { generateCvEvaluationPrompt } from '../prompts/cv-evaluation.prompt';
 import { generateProjectEvaluationPrompt } from '../prompts/project-evaluation.prompt';
 import { generateOverallSummaryPrompt } from '../prompts/overall-evaluation.prompt';
 import { EvaluateCandidateDto } from '../dto/request/evaluate-candidate.dto';
+import { ResultDetail } from '../dto/request/get-result-query.dto';
+import { RerunJobDto, RerunScope } from '../dto/request/rerun-job.dto';
+import {
+  ScoreBreakdownDto,
+  StageErrorDto,
+} from '../dto/response/evaluation-job-response.dto';
+import { EvaluationRunListResponseDto } from '../dto/response/evaluation-run-response.dto';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { FileType, JobStatus } from 'generated/prisma';
-import { FlowProducer } from 'bullmq';
+import { OwnerScope } from 'src/common/utils/owner-scope.util';
+import { criterionContribution } from '../utils/scoring.util';
+import { stageError } from '../utils/stage-failure.util';
+import { EvidenceCitation, locateQuote } from '../utils/evidence.util';
+import {
+  FileType,
+  Job,
+  JobError,
+  JobPosition,
+  JobStatus,
+  Prisma,
+  Rubric,
+  RubricKind,
+  RunStage,
+} from 'generated/prisma';
+import { FlowProducer, UnrecoverableError } from 'bullmq';
 import { InjectFlowProducer } from '@nestjs/bullmq';
+import {
+  ModelOverrides,
+  ModelRegistryService,
+  ModelRole,
+  ResolvedModel,
+} from '../../llm/model-registry.service';
+
+export interface EvaluationOptions {
+  jobId?: string;
+  models?: ModelOverrides;
+  rubricId?: string;
+  /** Job description (CV) or case study (project) pinned by a position */
+  contextDocumentId?: string;
+  /** Organization whose system documents take precedence */
+  organizationId?: string;
+}
+
+export interface JobContext {
+  jobTitle: string;
+  position?: JobPosition;
+  cvRubricId?: string;
+  projectRubricId?: string;
+}
+
+export interface QueueJobOptions {
+  batchId?: string;
+  candidateLabel?: string;
+  /** Milliseconds to hold the CV and project steps back, for rate limiting */
+  delay?: number;
+}
+
+interface FlowOptions {
+  models?: ModelOverrides;
+  delay?: number;
+  /** Stages to evaluate before the overall summary; none re-runs only the summary */
+  stages?: RunStage[];
+}
+
+interface RunRecord {
+  model: ResolvedModel;
+  rubric?: { id?: string; version?: number };
+  prompt: string;
+  score: number | null;
+  feedback: string;
+  criteria?: EvalResult['criteria'];
+}
+
+/** Queue states of flow steps that have not been picked up by a worker */
+const PENDING_STATES = [
+  'waiting',
+  'waiting-children',
+  'delayed',
+  'prioritized',
+];
 
 @Injectable()
-export class EvaluationsService {
+export class EvaluationsService implements OnModuleInit, OnModuleDestroy {
   private logger = new Logger(EvaluationsService.name);
-  private readonly SUMMARY_TEMPERATURE = 0.2;
-  private readonly EVAL_TEMPERATURE = 0.1;
+  /** Abort controllers of the model calls running in this process, by job */
+  private readonly inFlight = new Map<string, Set<AbortController>>();
+  private cancellations?: Subscription;
   private readonly JOB_OPTIONS = {
     attempts: 3,
     backoff: {
@@ -38,17 +130,101 @@ export class EvaluationsService {
     private readonly prismaService: PrismaService,
     private readonly documentService: EvaluationDocumentsService,
     private readonly systemDocumentsService: SystemDocumentsService,
+    private readonly rubricsService: RubricsService,
+    private readonly positionsService: PositionsService,
+    private readonly jobEvents: JobEventsService,
+    private readonly webhooksService: WebhooksService,
+    private readonly modelRegistry: ModelRegistryService,
   ) {}
 
-  async initializeJob(userId: string, request: EvaluateCandidateDto) {
+  onModuleInit() {
+    // Cancellations are published to every instance, so whichever worker runs
+    // the job aborts its model calls
+    this.cancellations = this.jobEvents
+      .onStage('cancelled')
+      .subscribe(({ jobId }) => {
+        const controllers = this.inFlight.get(jobId);
+        if (!controllers) return;
+        this.logger.log(
+          `Aborting ${controllers.size} model calls for cancelled job ${jobId}`,
+        );
+        controllers.forEach((controller) => controller.abort());
+      });
+  }
+
+  onModuleDestroy() {
+    this.cancellations?.unsubscribe();
+  }
+
+  async initializeJob(scope: OwnerScope, request: EvaluateCandidateDto) {
     this.logger.log('Initializing evaluation job');
+    this.modelRegistry.assertOverridesAllowed(request.models);
+    await this.webhooksService.assertCanSignCallbacks(
+      scope.userId,
+      request.callbackUrl,
+    );
+    await this.documentService.validateSubmission(scope, request);
+    const context = await this.resolveJobContext(request);
+    return this.queueJob(scope, request, context);
+  }
+
+  /**
+   * Resolve the job title, position and rubric versions shared by every job
+   * created from one request
+   */
+  async resolveJobContext(
+    request: Pick<EvaluateCandidateDto, 'jobTitle' | 'positionId'>,
+  ): Promise<JobContext> {
+    const position = request.positionId
+      ? await this.positionsService.findPositionOrThrow(request.positionId)
+      : undefined;
+    const jobTitle = position?.title ?? request.jobTitle;
+    if (!jobTitle) {
+      throw new BadRequestException(
+        'Either positionId or jobTitle is required',
+      );
+    }
+
+    const [cvRubric, projectRubric] = position
+      ? [position.cvRubric, position.projectRubric]
+      : await Promise.all([
+          this.rubricsService.findActiveRubric(RubricKind.CV, jobTitle),
+          this.rubricsService.findActiveRubric(RubricKind.PROJECT, jobTitle),
+        ]);
+
+    return {
+      jobTitle,
+      position,
+      cvRubricId: cvRubric?.id,
+      projectRubricId: projectRubric?.id,
+    };
+  }
+
+  async queueJob(
+    scope: OwnerScope,
+    request: Pick<
+      EvaluateCandidateDto,
+      'cvFileId' | 'reportFileId' | 'models' | 'callbackUrl'
+    >,
+    context: JobContext,
+    options: QueueJobOptions = {},
+  ) {
+    const { jobTitle, position } = context;
+
     const job = await this.prismaService.job.create({
       data: {
-        userId,
+        userId: scope.userId,
+        organizationId: scope.organizationId,
         cvFileId: request.cvFileId,
         reportFileId: request.reportFileId,
-        jobTitle: request.jobTitle,
+        jobTitle,
         status: JobStatus.QUEUED,
+        positionId: position?.id,
+        cvRubricId: context.cvRubricId,
+        projectRubricId: context.projectRubricId,
+        callbackUrl: request.callbackUrl,
+        batchId: options.batchId,
+        candidateLabel: options.candidateLabel,
       },
     });
 
@@ -58,112 +234,521 @@ export class EvaluationsService {
         currentStage: 'queued',
       },
     });
+    await this.jobEvents.publish(job.id, 'queued');
+
+    await this.addEvaluationFlow(job, position, {
+      models: request.models,
+      delay: options.delay,
+    });
+
+    return job;
+  }
+
+  /**
+   * Evaluate an existing job again. Earlier scores stay available as
+   * evaluation runs; the job result is overwritten stage by stage as the new
+   * run progresses.
+   */
+  async rerunJob(jobId: string, request: RerunJobDto) {
+    const job = await this.prismaService.job.findUnique({
+      where: { id: jobId },
+      include: { result: true, position: true },
+    });
+
+    if (!job) {
+      throw new NotFoundException(`Job with ID ${jobId} not found`);
+    }
+    if (
+      job.status === JobStatus.QUEUED ||
+      job.status === JobStatus.PROCESSING
+    ) {
+      throw new ConflictException(`Job ${jobId} is still being evaluated`);
+    }
+    this.modelRegistry.assertOverridesAllowed(request.models);
+
+    const scope = request.scope ?? RerunScope.FULL;
+    const stages: RunStage[] = {
+      [RerunScope.FULL]: [RunStage.CV, RunStage.PROJECT],
+      [RerunScope.CV]: [RunStage.CV],
+      [RerunScope.PROJECT]: [RunStage.PROJECT],
+      [RerunScope.OVERALL]: [],
+    }[scope];
+
+    // The summary needs both scores, so any stage not re-run must have one
+    if (
+      !stages.includes(RunStage.CV) &&
+      (job.result?.cvMatchRate ?? null) === null
+    ) {
+      throw new BadRequestException(
+        `Job ${jobId} has no CV score to reuse; re-run the cv stage as well`,
+      );
+    }
+    if (
+      !stages.includes(RunStage.PROJECT) &&
+      (job.result?.projectScore ?? null) === null
+    ) {
+      throw new BadRequestException(
+        `Job ${jobId} has no project score to reuse; re-run the project stage as well`,
+      );
+    }
+
+    const context =
+      request.repinRubrics === false
+        ? undefined
+        : await this.resolveJobContext({
+            jobTitle: job.jobTitle,
+            positionId: job.positionId ?? undefined,
+          });
+
+    const updated = await this.prismaService.job.update({
+      where: { id: jobId },
+      data: {
+        status: JobStatus.QUEUED,
+        ...(context &&
+          stages.includes(RunStage.CV) && {
+            cvRubricId: context.cvRubricId ?? null,
+          }),
+        ...(context &&
+          stages.includes(RunStage.PROJECT) && {
+            projectRubricId: context.projectRubricId ?? null,
+          }),
+      },
+    });
+    await this.prismaService.evaluationResult.update({
+      where: { jobId },
+      data: { error: null, currentStage: 'queued', completedAt: null },
+    });
+    await this.jobEvents.publish(jobId, 'queued');
+
+    await this.addEvaluationFlow(updated, job.position, {
+      models: request.models,
+      stages,
+    });
+
+    this.logger.log(`Re-running job ${jobId} with scope ${scope}`);
+
+    return updated;
+  }
+
+  async listRuns(jobId: string): Promise<EvaluationRunListResponseDto> {
+    const job = await this.prismaService.job.findUnique({
+      where: { id: jobId },
+      include: { runs: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!job) {
+      throw new NotFoundException(`Job with ID ${jobId} not found`);
+    }
+
+    return {
+      jobId,
+      total: job.runs.length,
+      runs: job.runs.map((run) => ({
+        id: run.id,
+        stage: run.stage,
+        attempt: run.attempt,
+        provider: run.provider,
+        model: run.model,
+        rubricId: run.rubricId,
+        rubricVersion: run.rubricVersion,
+        promptHash: run.promptHash,
+        score: run.score,
+        feedback: run.feedback,
+        criteria: run.criteria,
+        createdAt: run.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Stop a queued or running job. Steps still waiting in the queues are
+   * removed and model calls in flight are aborted; steps that already started
+   * finish without writing results.
+   */
+  async cancelJob(jobId: string) {
+    const job = await this.prismaService.job.findUnique({
+      where: { id: jobId },
+    });
+
+    if (!job) {
+      throw new NotFoundException(`Job with ID ${jobId} not found`);
+    }
+    if (
+      job.status !== JobStatus.QUEUED &&
+      job.status !== JobStatus.PROCESSING
+    ) {
+      throw new ConflictException(
+        `Job ${jobId} is already ${job.status.toLowerCase()}`,
+      );
+    }
+
+    // Only a job that is still running can be cancelled, even if it finishes
+    // between the check above and this write
+    const { count } = await this.prismaService.job.updateMany({
+      where: {
+        id: jobId,
+        status: { in: [JobStatus.QUEUED, JobStatus.PROCESSING] },
+      },
+      data: { status: JobStatus.CANCELLED },
+    });
+    if (count === 0) {
+      throw new ConflictException(`Job ${jobId} has already finished`);
+    }
+
+    await this.prismaService.evaluationResult.update({
+      where: { jobId },
+      data: { currentStage: 'cancelled' },
+    });
+    await this.jobEvents.publish(jobId, 'cancelled');
+
+    const removed = job.flowJobId
+      ? await this.removePendingSteps(job.flowJobId)
+      : 0;
+    this.logger.log(
+      `Cancelled job ${jobId}, removed ${removed} pending queue steps`,
+    );
+
+    return { ...job, status: JobStatus.CANCELLED };
+  }
+
+  async isCancelled(jobId: string): Promise<boolean> {
+    const job = await this.prismaService.job.findUnique({
+      where: { id: jobId },
+      select: { status: true },
+    });
+    return job?.status === JobStatus.CANCELLED;
+  }
+
+  /**
+   * Remove the steps of a flow that no worker has picked up, children first.
+   * Active steps cannot be removed and stop on their own.
+   */
+  private async removePendingSteps(flowJobId: string): Promise<number> {
+    const flow = await this.flowProducer.getFlow({
+      id: flowJobId,
+      queueName: 'overall-scoring',
+    });
+    if (!flow) {
+      return 0;
+    }
+
+    let removed = 0;
+    for (const node of [...(flow.children ?? []), flow]) {
+      const state = await node.job.getState();
+      if (!PENDING_STATES.includes(state)) continue;
+      try {
+        await node.job.remove();
+        removed++;
+      } catch (error) {
+        this.logger.debug(
+          `Could not remove ${node.job.name} step ${node.job.id}`,
+          error,
+        );
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Run a model call that is aborted if its job is cancelled. Calls outside
+   * a job run without a signal.
+   */
+  private async withCancellation<T>(
+    jobId: string | undefined,
+    call: (abortSignal?: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    if (!jobId) {
+      return call();
+    }
+
+    const controller = new AbortController();
+    const controllers = this.inFlight.get(jobId) ?? new Set();
+    controllers.add(controller);
+    this.inFlight.set(jobId, controllers);
+
+    try {
+      return await call(controller.signal);
+    } finally {
+      controllers.delete(controller);
+      if (controllers.size === 0) {
+        this.inFlight.delete(jobId);
+      }
+    }
+  }
+
+  /**
+   * Queue the overall scoring step with the requested evaluation stages as
+   * its children
+   */
+  private async addEvaluationFlow(
+    job: Job,
+    position: JobPosition | null | undefined,
+    options: FlowOptions,
+  ) {
+    const stages = options.stages ?? [RunStage.CV, RunStage.PROJECT];
+    const childOptions = { ...this.JOB_OPTIONS, delay: options.delay };
 
-    await this.flowProducer.add({
+    const flow = await this.flowProducer.add({
       name: 'overall-scoring',
       queueName: 'overall-scoring',
       data: {
         jobId: job.id,
+        models: options.models,
       },
       children: [
-        {
-          name: 'cv-evaluation',
-          queueName: 'cv-evaluation',
-          opts: this.JOB_OPTIONS,
-          data: {
-            userId,
-            jobId: job.id,
-            cvFileId: request.cvFileId,
-            jobTitle: request.jobTitle,
-          },
-        },
-        {
-          name: 'project-evaluation',
-          queueName: 'project-evaluation',
-          opts: this.JOB_OPTIONS,
-          data: {
-            jobId: job.id,
-            userId,
-            projectFileId: request.reportFileId,
-            jobTitle: request.jobTitle,
-          },
-        },
+        ...(stages.includes(RunStage.CV)
+          ? [
+              {
+                name: 'cv-evaluation',
+                queueName: 'cv-evaluation',
+                opts: childOptions,
+                data: {
+                  userId: job.userId,
+                  organizationId: job.organizationId ?? undefined,
+                  jobId: job.id,
+                  cvFileId: job.cvFileId,
+                  jobTitle: job.jobTitle,
+                  rubricId: job.cvRubricId ?? undefined,
+                  jobDescriptionId: position?.jobDescriptionId,
+                  models: options.models,
+                },
+              },
+            ]
+          : []),
+        ...(stages.includes(RunStage.PROJECT)
+          ? [
+              {
+                name: 'project-evaluation',
+                queueName: 'project-evaluation',
+                opts: childOptions,
+                data: {
+                  jobId: job.id,
+                  userId: job.userId,
+                  organizationId: job.organizationId ?? undefined,
+                  projectFileId: job.reportFileId,
+                  jobTitle: job.jobTitle,
+                  rubricId: job.projectRubricId ?? undefined,
+                  caseStudyId: position?.caseStudyId,
+                  models: options.models,
+                },
+              },
+            ]
+          : []),
       ],
     });
 
-    return job;
+    await this.prismaService.job.update({
+      where: { id: job.id },
+      data: { flowJobId: flow.job.id },
+    });
   }
 
-  async getJobStatus(jobId: string) {
+  async getJobStatus(
+    jobId: string,
+    detail: ResultDetail = ResultDetail.SUMMARY,
+  ) {
     const job = await this.prismaService.job.findUnique({
       where: { id: jobId },
-      include: { result: true },
+      include: {
+        result: true,
+        cvRubric: true,
+        projectRubric: true,
+        errors: { orderBy: { createdAt: 'asc' } },
+      },
     });
 
     if (!job) {
       throw new NotFoundException(`Job with ID ${jobId} not found`);
     }
 
+    const full = detail === ResultDetail.FULL;
+    const failure =
+      job.status === JobStatus.FAILED
+        ? job.errors.findLast((error) => error.isFinal)
+        : undefined;
+
     return {
       id: job.id,
       status: job.status,
+      currentStage: job.result?.currentStage ?? undefined,
       result:
         job.status === JobStatus.COMPLETED &&
-        job.result?.cvMatchRate &&
-        job.result?.projectScore
+        job.result?.cvMatchRate != null &&
+        job.result.projectScore != null
           ? {
               cv_match_rate: job.result.cvMatchRate,
               cv_feedback: job.result.cvFeedback || '',
               project_score: job.result.projectScore,
               project_feedback: job.result.projectFeedback || '',
               overall_summary: job.result.overallSummary || '',
+              ...(full && {
+                cv_breakdown: this.buildBreakdown(
+                  job.result.cvCriteria,
+                  job.cvRubric,
+                ),
+                project_breakdown: this.buildBreakdown(
+                  job.result.projectCriteria,
+                  job.projectRubric,
+                ),
+              }),
             }
           : undefined,
       error: job.result?.error ?? undefined,
+      failure: failure && this.toStageError(failure),
+      stageErrors: full
+        ? job.errors.map((error) => this.toStageError(error))
+        : undefined,
     };
   }
 
-  async updateFailedJob(jobId: string) {
-    this.logger.log(`Updating job ${jobId} status to ${JobStatus.FAILED}`);
-    await this.prismaService.job.update({
+  /**
+   * Stream stage transitions of a job as server-sent events, starting with
+   * its current stage and ending with the final result once it completes or
+   * fails
+   */
+  async streamJobEvents(jobId: string): Promise<Observable<MessageEvent>> {
+    const exists = await this.prismaService.job.findUnique({
       where: { id: jobId },
+      select: { id: true },
+    });
+    if (!exists) {
+      throw new NotFoundException(`Job with ID ${jobId} not found`);
+    }
+
+    return new Observable<MessageEvent>((subscriber) => {
+      let finished = false;
+      const onStage = (stage: string | undefined) => {
+        if (finished || !stage) return;
+        subscriber.next({ type: 'stage', data: { stage } });
+        if (!TERMINAL_STAGES.includes(stage)) return;
+
+        finished = true;
+        this.getJobStatus(jobId)
+          .then((status) => {
+            subscriber.next({ type: 'result', data: status });
+            subscriber.complete();
+          })
+          .catch((error) => subscriber.error(error));
+      };
+
+      // Subscribe before reading the current stage so no transition is missed
+      const live = this.jobEvents
+        .stream(jobId)
+        .subscribe((event) => onStage(event.stage));
+      this.getJobStatus(jobId)
+        .then((status) => onStage(status.currentStage))
+        .catch((error) => subscriber.error(error));
+
+      return () => live.unsubscribe();
+    });
+  }
+
+  /**
+   * Record a failed stage attempt and fail the job once the stage has no
+   * retries left or the error is permanent
+   * @returns Whether this call moved the job to FAILED
+   */
+  async recordStageFailure(
+    jobId: string,
+    stage: RunStage,
+    failure: Error,
+    attempt: number,
+    maxAttempts: number,
+  ): Promise<boolean> {
+    if (await this.isCancelled(jobId)) {
+      this.logger.log(`Ignoring ${stage} failure of cancelled job ${jobId}`);
+      return false;
+    }
+
+    const error = stageError(failure);
+    const isFinal =
+      failure instanceof UnrecoverableError || attempt >= maxAttempts;
+
+    await this.prismaService.jobError.create({
+      data: {
+        jobId,
+        stage,
+        attempt,
+        isFinal,
+        errorClass: error.name,
+        message: error.message,
+        isRetryable: error instanceof LLMError ? error.isRetryable : null,
+        statusCode: error instanceof LLMError ? error.statusCode : null,
+      },
+    });
+
+    if (!isFinal) {
+      this.logger.warn(
+        `${stage} stage of job ${jobId} failed on attempt ${attempt}/${maxAttempts}, retrying`,
+      );
+      return false;
+    }
+
+    // Only an unfinished job fails, so a failing parent and child, or a
+    // failure racing completion, report it once
+    const { count } = await this.prismaService.job.updateMany({
+      where: {
+        id: jobId,
+        status: { in: [JobStatus.QUEUED, JobStatus.PROCESSING] },
+      },
       data: { status: JobStatus.FAILED },
     });
+    if (count === 0) {
+      this.logger.log(`Job ${jobId} already finished, not failing it again`);
+      return false;
+    }
+    this.logger.log(`Updated job ${jobId} status to ${JobStatus.FAILED}`);
 
     await this.prismaService.evaluationResult.update({
       where: { jobId },
       data: {
-        error: 'Evaluation process failed',
+        error: `${stage} stage failed after ${attempt} attempts: ${error.message}`,
         currentStage: 'failed',
       },
     });
+    await this.jobEvents.publish(jobId, 'failed');
+
+    return true;
+  }
+
+  /** Deliver the job's current result to its callback URL and webhooks */
+  async notifyWebhooks(jobId: string, event: WebhookEvent): Promise<void> {
+    try {
+      const status = await this.getJobStatus(jobId);
+      await this.webhooksService.dispatchJobEvent(jobId, event, status);
+    } catch (error) {
+      this.logger.error(`Failed to dispatch ${event} for job ${jobId}`, error);
+    }
   }
 
   async evaluate(
     type: FileType,
-    userId: string,
+    scope: OwnerScope,
     fileId: string,
     jobTitle: string,
-    jobId?: string,
+    options: EvaluationOptions = {},
   ) {
     const content = await this.documentService.loadFileContent(
       fileId,
-      userId,
+      scope,
       type,
     );
+    const scoped = { ...options, organizationId: scope.organizationId };
 
     if (type === FileType.CV) {
-      return this.evaluateCv(content, jobTitle, jobId);
+      return this.evaluateCv(content, jobTitle, scoped);
     } else {
-      return this.evaluateProject(content, jobTitle, jobId);
+      return this.evaluateProject(content, jobTitle, scoped);
     }
   }
 
   async evaluateCv(
     cvContent: string,
     jobTitle: string,
-    jobId?: string,
+    options: EvaluationOptions = {},
   ): Promise<EvalResult> {
+    const { jobId, models, rubricId, contextDocumentId, organizationId } =
+      options;
     this.logger.log(`Starting CV evaluation for job: ${jobTitle}`);
 
     if (jobId) {
@@ -171,13 +756,23 @@ export class EvaluationsService {
         where: { jobId },
         data: { currentStage: 'cv_processing' },
       });
+      await this.jobEvents.publish(jobId, 'cv_processing');
     }
 
-    const rubric = await this.systemDocumentsService.getCvRubric();
+    const loaded = await this.rubricsService.loadRubric(RubricKind.CV, {
+      rubricId,
+      jobTitle,
+      models,
+      organizationId,
+    });
+    const { rubric } = loaded;
     this.logger.debug(`Rubric loaded with ${rubric.criteria.length} criteria`);
 
-    const jobDescription =
-      await this.systemDocumentsService.getJobDescription(jobTitle);
+    const jobDescription = await this.systemDocumentsService.getJobDescription(
+      jobTitle,
+      contextDocumentId,
+      organizationId,
+    );
 
     this.logger.debug('Generating evaluation schema from rubric');
     const schema = generateEvaluationSchema(rubric);
@@ -190,14 +785,25 @@ export class EvaluationsService {
       cvContent,
     });
 
-    this.logger.debug('Calling LLM for evaluation with retry logic');
-    const evaluationResult = (await generateObjectWithRetry({
-      model: openai('gpt-4o-mini'),
-      temperature: this.EVAL_TEMPERATURE,
-      schema,
-      prompt,
-    })) as {
-      criteria: Record<string, { score: number; reasoning: string }>;
+    const model = this.modelRegistry.resolve(ModelRole.CV_SCORING, models);
+    this.logger.debug(
+      `Calling ${model.provider}:${model.model} for evaluation with retry logic`,
+    );
+    const evaluationResult = (await this.withCancellation(
+      jobId,
+      (abortSignal) =>
+        generateObjectWithRetry({
+          model: model.instance,
+          temperature: model.temperature,
+          schema,
+          prompt,
+          abortSignal,
+        }),
+    )) as {
+      criteria: Record<
+        string,
+        { score: number; reasoning: string; evidence?: { quote: string }[] }
+      >;
       feedback: string;
     };
 
@@ -214,10 +820,17 @@ export class EvaluationsService {
           reasoning: criterionResult.reasoning,
           weight: criterion.weight,
           displayName: criterion.displayName,
+          evidence: this.verifyEvidence(
+            criterionResult.evidence,
+            cvContent,
+            `${criterion.name} in CV`,
+          ),
         };
 
-        const normalizedScore = ((criterionResult.score - 1) / 4) * 100;
-        weightedSum += normalizedScore * (criterion.weight / 100);
+        weightedSum += criterionContribution(
+          criterionResult.score,
+          criterion.weight,
+        );
         totalWeight += criterion.weight;
       }
     });
@@ -227,16 +840,24 @@ export class EvaluationsService {
 
     const cv_match_rate = Math.round((weighted_score / 100) * 100) / 100;
 
-    if (jobId) {
-      await this.prismaService.evaluationResult.update({
-        where: { jobId },
-        data: {
-          cvMatchRate: cv_match_rate,
-          cvFeedback: evaluationResult.feedback,
-          cvCriteria: enrichedCriteria,
-          currentStage: 'cv_completed',
-        },
+    if (
+      jobId &&
+      (await this.writeStageResult(jobId, RunStage.CV, {
+        cvMatchRate: cv_match_rate,
+        cvFeedback: evaluationResult.feedback,
+        cvCriteria: enrichedCriteria,
+        currentStage: 'cv_completed',
+      }))
+    ) {
+      await this.recordRun(jobId, RunStage.CV, {
+        model,
+        rubric: loaded,
+        prompt,
+        score: cv_match_rate,
+        feedback: evaluationResult.feedback,
+        criteria: enrichedCriteria,
       });
+      await this.jobEvents.publish(jobId, 'cv_completed');
     }
 
     this.logger.log(
@@ -253,8 +874,10 @@ export class EvaluationsService {
   async evaluateProject(
     projectContent: string,
     jobTitle: string,
-    jobId?: string,
+    options: EvaluationOptions = {},
   ): Promise<EvalResult> {
+    const { jobId, models, rubricId, contextDocumentId, organizationId } =
+      options;
     this.logger.log('Starting project evaluation');
 
     if (jobId) {
@@ -262,14 +885,25 @@ export class EvaluationsService {
         where: { jobId },
         data: { currentStage: 'project_processing' },
       });
+      await this.jobEvents.publish(jobId, 'project_processing');
     }
 
-    const rubric = await this.systemDocumentsService.getProjectRubric();
+    const loaded = await this.rubricsService.loadRubric(RubricKind.PROJECT, {
+      rubricId,
+      jobTitle,
+      models,
+      organizationId,
+    });
+    const { rubric } = loaded;
     this.logger.debug(
       `Project rubric loaded with ${rubric.criteria.length} criteria`,
     );
 
-    const caseStudy = await this.systemDocumentsService.getCaseStudy(jobTitle);
+    const caseStudy = await this.systemDocumentsService.getCaseStudy(
+      jobTitle,
+      contextDocumentId,
+      organizationId,
+    );
     this.logger.debug('Case study brief loaded');
 
     this.logger.debug('Generating evaluation schema from rubric');
@@ -282,14 +916,25 @@ export class EvaluationsService {
       projectContent,
     );
 
-    this.logger.debug('Calling LLM for evaluation with retry logic');
-    const evaluationResult = (await generateObjectWithRetry({
-      model: openai('gpt-4o-mini'),
-      temperature: this.EVAL_TEMPERATURE,
-      schema,
-      prompt,
-    })) as {
-      criteria: Record<string, { score: number; reasoning: string }>;
+    const model = this.modelRegistry.resolve(ModelRole.PROJECT_SCORING, models);
+    this.logger.debug(
+      `Calling ${model.provider}:${model.model} for evaluation with retry logic`,
+    );
+    const evaluationResult = (await this.withCancellation(
+      jobId,
+      (abortSignal) =>
+        generateObjectWithRetry({
+          model: model.instance,
+          temperature: model.temperature,
+          schema,
+          prompt,
+          abortSignal,
+        }),
+    )) as {
+      criteria: Record<
+        string,
+        { score: number; reasoning: string; evidence?: { quote: string }[] }
+      >;
       feedback: string;
     };
 
@@ -306,10 +951,17 @@ export class EvaluationsService {
           reasoning: criterionResult.reasoning,
           weight: criterion.weight,
           displayName: criterion.displayName,
+          evidence: this.verifyEvidence(
+            criterionResult.evidence,
+            projectContent,
+            `${criterion.name} in project report`,
+          ),
         };
 
-        const normalizedScore = ((criterionResult.score - 1) / 4) * 100;
-        weightedSum += normalizedScore * (criterion.weight / 100);
+        weightedSum += criterionContribution(
+          criterionResult.score,
+          criterion.weight,
+        );
         totalWeight += criterion.weight;
       }
     });
@@ -320,16 +972,24 @@ export class EvaluationsService {
     const project_score =
       Math.round(((weighted_score / 100) * 4 + 1) * 10) / 10;
 
-    if (jobId) {
-      await this.prismaService.evaluationResult.update({
-        where: { jobId },
-        data: {
-          projectScore: project_score,
-          projectFeedback: evaluationResult.feedback,
-          projectCriteria: enrichedCriteria,
-          currentStage: 'project_completed',
-        },
+    if (
+      jobId &&
+      (await this.writeStageResult(jobId, RunStage.PROJECT, {
+        projectScore: project_score,
+        projectFeedback: evaluationResult.feedback,
+        projectCriteria: enrichedCriteria,
+        currentStage: 'project_completed',
+      }))
+    ) {
+      await this.recordRun(jobId, RunStage.PROJECT, {
+        model,
+        rubric: loaded,
+        prompt,
+        score: project_score,
+        feedback: evaluationResult.feedback,
+        criteria: enrichedCriteria,
       });
+      await this.jobEvents.publish(jobId, 'project_completed');
     }
 
     this.logger.log(
@@ -343,19 +1003,148 @@ export class EvaluationsService {
     };
   }
 
-  async evaluateCandidate(jobId: string): Promise<void> {
+  /**
+   * Store a stage result unless the job was cancelled meanwhile
+   * @returns Whether the result was written
+   */
+  private async writeStageResult(
+    jobId: string,
+    stage: RunStage,
+    data: Prisma.EvaluationResultUpdateManyMutationInput,
+  ): Promise<boolean> {
+    const { count } = await this.prismaService.evaluationResult.updateMany({
+      where: { jobId, job: { status: { not: JobStatus.CANCELLED } } },
+      data,
+    });
+    if (count === 0) {
+      this.logger.log(`Discarding ${stage} result of cancelled job ${jobId}`);
+    }
+    return count > 0;
+  }
+
+  /** Append an immutable history row for one evaluated stage */
+  private async recordRun(
+    jobId: string,
+    stage: RunStage,
+    run: RunRecord,
+  ): Promise<void> {
+    const previous = await this.prismaService.evaluationRun.count({
+      where: { jobId, stage },
+    });
+
+    await this.prismaService.evaluationRun.create({
+      data: {
+        jobId,
+        stage,
+        attempt: previous + 1,
+        provider: run.model.provider,
+        model: run.model.model,
+        rubricId: run.rubric?.id,
+        rubricVersion: run.rubric?.version,
+        promptHash: createHash('sha256').update(run.prompt).digest('hex'),
+        score: run.score,
+        feedback: run.feedback,
+        criteria: run.criteria,
+      },
+    });
+  }
+
+  /**
+   * Locate each quoted excerpt in the source document so citations carry a
+   * page and offset, and quotes the model made up are flagged as unverified
+   */
+  private verifyEvidence(
+    evidence: { quote: string }[] | undefined,
+    content: string,
+    label: string,
+  ): EvidenceCitation[] {
+    const citations = (evidence ?? []).map(({ quote }) =>
+      locateQuote(content, quote),
+    );
+
+    const unverified = citations.filter((citation) => !citation.verified);
+    if (unverified.length > 0) {
+      this.logger.warn(
+        `${unverified.length} of ${citations.length} evidence quotes for ${label} not found in the document`,
+      );
+    }
+
+    return citations;
+  }
+
+  private toStageError(error: JobError): StageErrorDto {
+    return {
+      stage: error.stage,
+      attempt: error.attempt,
+      isFinal: error.isFinal,
+      errorClass: error.errorClass,
+      message: error.message,
+      isRetryable: error.isRetryable,
+      statusCode: error.statusCode,
+      occurredAt: error.createdAt,
+    };
+  }
+
+  /** Turn stored criteria into the itemised breakdown of a weighted score */
+  private buildBreakdown(
+    storedCriteria: Prisma.JsonValue,
+    rubric: Rubric | null,
+  ): ScoreBreakdownDto {
+    const criteria = Object.entries(
+      (storedCriteria ?? {}) as EvalResult['criteria'],
+    ).map(([name, criterion]) => ({
+      name,
+      display_name: criterion.displayName,
+      score: criterion.score,
+      weight: criterion.weight,
+      weighted_contribution:
+        Math.round(
+          criterionContribution(criterion.score, criterion.weight) * 100,
+        ) / 100,
+      reasoning: criterion.reasoning,
+      evidence: criterion.evidence ?? [],
+    }));
+
+    return {
+      weighted_score:
+        Math.round(
+          criteria.reduce(
+            (sum, criterion) =>
+              sum + criterionContribution(criterion.score, criterion.weight),
+            0,
+          ) * 100,
+        ) / 100,
+      rubric: rubric
+        ? { id: rubric.id, version: rubric.version, job_title: rubric.jobTitle }
+        : null,
+      criteria,
+      unverified_evidence: criteria
+        .flatMap((criterion) => criterion.evidence)
+        .filter((citation) => !citation.verified).length,
+    };
+  }
+
+  async evaluateCandidate(
+    jobId: string,
+    models?: ModelOverrides,
+  ): Promise<void> {
     this.logger.log(`Starting overall scoring for job: ${jobId}`);
 
     await this.prismaService.evaluationResult.update({
       where: { jobId },
       data: { currentStage: 'overall_processing' },
     });
+    await this.jobEvents.publish(jobId, 'overall_processing');
 
     const result = await this.prismaService.evaluationResult.findUnique({
       where: { jobId },
     });
 
-    if (!result || !result.cvMatchRate || !result.projectScore) {
+    if (
+      !result ||
+      result.cvMatchRate === null ||
+      result.projectScore === null
+    ) {
       throw new Error('CV or Project evaluation not completed');
     }
 
@@ -367,26 +1156,50 @@ export class EvaluationsService {
       result.projectFeedback || 'no feedback provided',
     );
 
-    const overall_summary = await generateTextWithRetry({
-      model: openai('gpt-4o-mini'),
-      temperature: this.SUMMARY_TEMPERATURE,
-      prompt,
-    });
+    const model = this.modelRegistry.resolve(ModelRole.SUMMARY, models);
+    const overall_summary = await this.withCancellation(jobId, (abortSignal) =>
+      generateTextWithRetry({
+        model: model.instance,
+        temperature: model.temperature,
+        prompt,
+        abortSignal,
+      }),
+    );
 
-    await this.prismaService.$transaction([
-      this.prismaService.evaluationResult.update({
+    // The status write locks the job row, so a concurrent cancel either
+    // lands first and is kept or sees the job completed
+    const completed = await this.prismaService.$transaction(async (tx) => {
+      const { count } = await tx.job.updateMany({
+        where: { id: jobId, status: { not: JobStatus.CANCELLED } },
+        data: { status: JobStatus.COMPLETED },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.evaluationResult.update({
         where: { jobId },
         data: {
           overallSummary: overall_summary,
           currentStage: 'completed',
           completedAt: new Date(),
         },
-      }),
-      this.prismaService.job.update({
-        where: { id: jobId },
-        data: { status: JobStatus.COMPLETED },
-      }),
-    ]);
+      });
+      return true;
+    });
+
+    if (!completed) {
+      this.logger.log(`Discarding overall summary of cancelled job ${jobId}`);
+      return;
+    }
+
+    await this.jobEvents.publish(jobId, 'completed');
+    await this.recordRun(jobId, RunStage.OVERALL, {
+      model,
+      prompt,
+      score: null,
+      feedback: overall_summary,
+    });
 
     this.logger.log(
       `Complete evaluation finished - CV: ${result.cvMatchRate}, Project: ${result.projectScore}`,
@@ -0,0 +1,82 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { filter, Observable, Subject } from 'rxjs';
+
+export interface JobStageEvent {
+  jobId: string;
+  stage: string;
+  at: string;
+}
+
+const CHANNEL = 'evaluation-job-events';
+
+/** Stages after which a job no longer changes */
+export const TERMINAL_STAGES = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Fan-out of evaluation stage transitions over Redis pub/sub, so a client
+ * connected to any API instance sees stages written by any worker
+ */
+@Injectable()
+export class JobEventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JobEventsService.name);
+  private readonly publisher: Redis;
+  private readonly subscriber: Redis;
+  private readonly events = new Subject<JobStageEvent>();
+
+  constructor(configService: ConfigService) {
+    const url = configService.get<string>(
+      'REDIS_URL',
+      'redis://localhost:6379',
+    );
+    this.publisher = new Redis(url);
+    this.subscriber = new Redis(url);
+  }
+
+  async onModuleInit() {
+    this.subscriber.on('message', (channel: string, message: string) => {
+      if (channel !== CHANNEL) return;
+      try {
+        this.events.next(JSON.parse(message) as JobStageEvent);
+      } catch (error) {
+        this.logger.warn(`Ignoring malformed job event: ${message}`, error);
+      }
+    });
+    await this.subscriber.subscribe(CHANNEL);
+  }
+
+  async onModuleDestroy() {
+    this.events.complete();
+    await Promise.all([this.subscriber.quit(), this.publisher.quit()]);
+  }
+
+  async publish(jobId: string, stage: string): Promise<void> {
+    const event: JobStageEvent = {
+      jobId,
+      stage,
+      at: new Date().toISOString(),
+    };
+
+    try {
+      await this.publisher.publish(CHANNEL, JSON.stringify(event));
+    } catch (error) {
+      // Progress events are best effort; polling still sees the stage
+      this.logger.warn(`Failed to publish ${stage} for job ${jobId}`, error);
+    }
+  }
+
+  stream(jobId: string): Observable<JobStageEvent> {
+    return this.events.pipe(filter((event) => event.jobId === jobId));
+  }
+
+  /** Every job that reaches `stage`, published from any instance */
+  onStage(stage: string): Observable<JobStageEvent> {
+    return this.events.pipe(filter((event) => event.stage === stage));
+  }
+}
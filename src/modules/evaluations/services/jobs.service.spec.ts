@@ -0,0 +1,217 @@
+import { JobStatus } from 'generated/prisma';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { JobsService } from './jobs.service';
+import { JobSortField, SortOrder } from '../dto/request/list-jobs-query.dto';
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for `prisma.job.findMany`, interpreting the subset of
+ * filters and orderings the service builds
+ */
+function fakeFindMany(rows: Row[]) {
+  const compare = (a: unknown, b: unknown) => {
+    const value = (v: unknown) => (v instanceof Date ? v.getTime() : v);
+    const [x, y] = [value(a), value(b)] as [number | string, number | string];
+    return x < y ? -1 : x > y ? 1 : 0;
+  };
+
+  const matchesFilter = (actual: unknown, filter: unknown): boolean => {
+    if (filter === undefined) return true;
+    if (filter === null) return actual === null || actual === undefined;
+    if (typeof filter !== 'object' || filter instanceof Date) {
+      return actual !== null && compare(actual, filter) === 0;
+    }
+    return Object.entries(filter).every(([op, operand]) => {
+      if (operand === undefined || op === 'mode') return true;
+      if (actual === null || actual === undefined) return false;
+      switch (op) {
+        case 'equals':
+          return compare(actual, operand) === 0;
+        case 'lt':
+          return compare(actual, operand) < 0;
+        case 'lte':
+          return compare(actual, operand) <= 0;
+        case 'gt':
+          return compare(actual, operand) > 0;
+        case 'gte':
+          return compare(actual, operand) >= 0;
+        case 'contains':
+          return (actual as string)
+            .toLowerCase()
+            .includes((operand as string).toLowerCase());
+        default:
+          throw new Error(`Unsupported filter ${op}`);
+      }
+    });
+  };
+
+  const matches = (row: Row | null, where: Where): boolean =>
+    Object.entries(where).every(([key, filter]) => {
+      if (key === 'AND')
+        return (filter as Where[]).every((w) => matches(row, w));
+      if (key === 'OR') return (filter as Where[]).some((w) => matches(row, w));
+      if (key === 'result') {
+        const result = row?.result as Row | null;
+        if (filter === undefined) return true;
+        if (filter === null) return result === null;
+        const relation = filter as Where;
+        if ('is' in relation) {
+          return relation.is === null
+            ? result === null
+            : result !== null && matches(result, relation.is as Where);
+        }
+        return result !== null && matches(result, relation);
+      }
+      return matchesFilter(row?.[key], filter);
+    });
+
+  const sortKey = (row: Row, orderBy: Where) => {
+    const [field, spec] = Object.entries(orderBy)[0];
+    if (field === 'result') {
+      const [scoreField, { sort }] = Object.entries(spec as Where)[0] as [
+        string,
+        { sort: string },
+      ];
+      return {
+        value: (row.result as Row | null)?.[scoreField] ?? null,
+        desc: sort === 'desc',
+      };
+    }
+    return { value: row[field], desc: spec === 'desc' };
+  };
+
+  return jest.fn(
+    ({
+      where,
+      orderBy,
+      take,
+    }: {
+      where: Where;
+      orderBy: Where[];
+      take: number;
+    }) =>
+      Promise.resolve(
+        rows
+          .filter((row) => matches(row, where))
+          .sort((a, b) => {
+            for (const entry of orderBy) {
+              const [x, y] = [sortKey(a, entry), sortKey(b, entry)];
+              // nulls last in either direction
+              if (x.value === null || y.value === null) {
+                if (x.value !== y.value) return x.value === null ? 1 : -1;
+                continue;
+              }
+              const order = compare(x.value, y.value);
+              if (order !== 0) return x.desc ? -order : order;
+            }
+            return 0;
+          })
+          .slice(0, take),
+      ),
+  );
+}
+
+function job(id: string, cvMatchRate: number | null | undefined): Row {
+  return {
+    id,
+    userId: 'user-1',
+    organizationId: null,
+    status: cvMatchRate === undefined ? JobStatus.QUEUED : JobStatus.COMPLETED,
+    jobTitle: 'Backend Engineer',
+    candidateLabel: null,
+    positionId: null,
+    batchId: null,
+    createdAt: new Date(Date.UTC(2025, 10, 1, 0, 0, Number(id.slice(-2)))),
+    result:
+      cvMatchRate === undefined
+        ? null
+        : {
+            cvMatchRate,
+            projectScore: cvMatchRate === null ? null : 3,
+            currentStage: cvMatchRate === null ? 'failed' : 'completed',
+            completedAt: null,
+          },
+  };
+}
+
+describe('JobsService', () => {
+  // Scores with ties, a zero, failed jobs without a score and queued jobs
+  // without a result row
+  const rows = [
+    job('job-01', 0.8),
+    job('job-02', null),
+    job('job-03', 0.5),
+    job('job-04', undefined),
+    job('job-05', 0.8),
+    job('job-06', 0),
+    job('job-07', null),
+    job('job-08', undefined),
+    job('job-09', 0.5),
+  ];
+  let service: JobsService;
+
+  beforeEach(() => {
+    const prisma = { job: { findMany: fakeFindMany(rows) } };
+    service = new JobsService(prisma as unknown as PrismaService);
+  });
+
+  async function pageThrough(sortBy: JobSortField, order: SortOrder) {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await service.listJobs(
+        { userId: 'user-1' },
+        { sortBy, order, limit: 2, cursor },
+      );
+      ids.push(...page.jobs.map((listed) => listed.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return ids;
+  }
+
+  it('pages by score descending across the unscored jobs', async () => {
+    expect(
+      await pageThrough(JobSortField.CV_MATCH_RATE, SortOrder.DESC),
+    ).toEqual([
+      'job-05',
+      'job-01',
+      'job-09',
+      'job-03',
+      'job-06',
+      'job-08',
+      'job-07',
+      'job-04',
+      'job-02',
+    ]);
+  });
+
+  it('pages by score ascending with unscored jobs still last', async () => {
+    expect(
+      await pageThrough(JobSortField.CV_MATCH_RATE, SortOrder.ASC),
+    ).toEqual([
+      'job-06',
+      'job-03',
+      'job-09',
+      'job-01',
+      'job-05',
+      'job-02',
+      'job-04',
+      'job-07',
+      'job-08',
+    ]);
+  });
+
+  it('pages by creation time', async () => {
+    expect(await pageThrough(JobSortField.CREATED_AT, SortOrder.DESC)).toEqual(
+      rows.map((row) => row.id).reverse(),
+    );
+  });
+
+  it('rejects a malformed cursor', async () => {
+    await expect(
+      service.listJobs({ userId: 'user-1' }, { cursor: 'not-a-cursor' }),
+    ).rejects.toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,157 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma } from 'generated/prisma';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { OwnerScope, ownerFilter } from 'src/common/utils/owner-scope.util';
+import {
+  cursorDate,
+  decodeCursor,
+  encodeCursor,
+  PageCursor,
+} from 'src/common/utils/cursor.util';
+import { compositeScore } from '../utils/scoring.util';
+import {
+  JobSortField,
+  ListJobsQueryDto,
+  SortOrder,
+} from '../dto/request/list-jobs-query.dto';
+import { JobListResponseDto } from '../dto/response/job-list-response.dto';
+
+type JobWithResult = Prisma.JobGetPayload<{ include: { result: true } }>;
+
+@Injectable()
+export class JobsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Page through the jobs of a user or organization. The cursor carries the
+   * sort value and ID of the last job of the previous page, and the next page
+   * starts strictly after it; ties in the sort field are broken by ID so
+   * pages never overlap. Jobs without a score sort last.
+   */
+  async listJobs(
+    scope: OwnerScope,
+    query: ListJobsQueryDto,
+  ): Promise<JobListResponseDto> {
+    const limit = query.limit ?? 20;
+    const order = query.order ?? SortOrder.DESC;
+    const sortBy = query.sortBy ?? JobSortField.CREATED_AT;
+
+    const jobs = await this.prisma.job.findMany({
+      where: {
+        AND: query.cursor
+          ? [this.afterCursor(decodeCursor(query.cursor), sortBy, order)]
+          : [],
+        ...ownerFilter(scope),
+        status: query.status,
+        jobTitle: query.jobTitle
+          ? { contains: query.jobTitle, mode: Prisma.QueryMode.insensitive }
+          : undefined,
+        createdAt: {
+          gte: query.createdFrom ? new Date(query.createdFrom) : undefined,
+          lte: query.createdTo ? new Date(query.createdTo) : undefined,
+        },
+        ...((query.minCvMatchRate !== undefined ||
+          query.minProjectScore !== undefined) && {
+          result: {
+            cvMatchRate: { gte: query.minCvMatchRate },
+            projectScore: { gte: query.minProjectScore },
+          },
+        }),
+      },
+      orderBy: [this.sortOrder(sortBy, order), { id: order }],
+      include: { result: true },
+      take: limit + 1,
+    });
+
+    const page = jobs.slice(0, limit);
+
+    return {
+      jobs: page.map((job) => {
+        const cvMatchRate = job.result?.cvMatchRate ?? null;
+        const projectScore = job.result?.projectScore ?? null;
+        return {
+          id: job.id,
+          status: job.status,
+          currentStage: job.result?.currentStage ?? null,
+          jobTitle: job.jobTitle,
+          candidateLabel: job.candidateLabel,
+          positionId: job.positionId,
+          batchId: job.batchId,
+          cvMatchRate,
+          projectScore,
+          overallScore:
+            cvMatchRate !== null && projectScore !== null
+              ? compositeScore(cvMatchRate, projectScore)
+              : null,
+          createdAt: job.createdAt,
+          completedAt: job.result?.completedAt ?? null,
+        };
+      }),
+      nextCursor:
+        jobs.length > limit
+          ? encodeCursor(this.sortValue(page[page.length - 1], sortBy))
+          : null,
+    };
+  }
+
+  /** Jobs that come after the cursor in the requested order */
+  private afterCursor(
+    cursor: PageCursor,
+    field: JobSortField,
+    order: SortOrder,
+  ): Prisma.JobWhereInput {
+    const after = <T>(cursorValue: T) =>
+      order === SortOrder.ASC ? { gt: cursorValue } : { lt: cursorValue };
+
+    const { value, id } = cursor;
+    if (field === JobSortField.CREATED_AT) {
+      const createdAt = cursorDate(cursor);
+      return {
+        OR: [{ createdAt: after(createdAt) }, { createdAt, id: after(id) }],
+      };
+    }
+
+    if (value !== null && typeof value !== 'number') {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const unscored: Prisma.JobWhereInput = {
+      OR: [{ result: { is: null } }, { result: { is: { [field]: null } } }],
+    };
+
+    // Unscored jobs come last in either direction, ordered by ID alone
+    if (value === null) {
+      return { AND: [unscored, { id: after(id) }] };
+    }
+    return {
+      OR: [
+        { result: { is: { [field]: after(value) } } },
+        { result: { is: { [field]: value } }, id: after(id) },
+        unscored,
+      ],
+    };
+  }
+
+  private sortValue(job: JobWithResult, field: JobSortField): PageCursor {
+    switch (field) {
+      case JobSortField.CV_MATCH_RATE:
+      case JobSortField.PROJECT_SCORE:
+        return { value: job.result?.[field] ?? null, id: job.id };
+      default:
+        return { value: job.createdAt.toISOString(), id: job.id };
+    }
+  }
+
+  private sortOrder(
+    field: JobSortField,
+    order: SortOrder,
+  ): Prisma.JobOrderByWithRelationInput {
+    switch (field) {
+      case JobSortField.CV_MATCH_RATE:
+      case JobSortField.PROJECT_SCORE:
+        return { result: { [field]: { sort: order, nulls: 'last' } } };
+      default:
+        return { createdAt: order };
+    }
+  }
+}
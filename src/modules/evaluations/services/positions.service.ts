@@ -0,0 +1,212 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { JobPosition, Prisma, RubricKind } from 'generated/prisma';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SystemDocumentsService } from './system-documents.service';
+import { RubricsService } from './rubrics.service';
+import { SystemDocType } from '../dto/request/system-doc-metadata.dto';
+import { CreatePositionDto } from '../dto/request/create-position.dto';
+import { UpdatePositionDto } from '../dto/request/update-position.dto';
+import {
+  PositionListResponseDto,
+  PositionResponseDto,
+} from '../dto/response/position-response.dto';
+
+const POSITION_INCLUDE = {
+  jobDescription: true,
+  caseStudy: true,
+  cvRubric: true,
+  projectRubric: true,
+} satisfies Prisma.JobPositionInclude;
+
+type PositionWithBindings = Prisma.JobPositionGetPayload<{
+  include: typeof POSITION_INCLUDE;
+}>;
+
+@Injectable()
+export class PositionsService {
+  private readonly logger = new Logger(PositionsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemDocumentsService: SystemDocumentsService,
+    private readonly rubricsService: RubricsService,
+  ) {}
+
+  async createPosition(
+    request: CreatePositionDto,
+  ): Promise<PositionResponseDto> {
+    const title = request.title.trim();
+    await this.assertTitleAvailable(title);
+    await this.assertBindings(request);
+
+    const position = await this.prisma.jobPosition.create({
+      data: {
+        title,
+        jobDescriptionId: request.jobDescriptionId,
+        caseStudyId: request.caseStudyId,
+        cvRubricId: request.cvRubricId,
+        projectRubricId: request.projectRubricId,
+      },
+      include: POSITION_INCLUDE,
+    });
+
+    this.logger.log(`Created position ${position.title} (${position.id})`);
+
+    return this.toResponse(position);
+  }
+
+  async listPositions(): Promise<PositionListResponseDto> {
+    const positions = await this.prisma.jobPosition.findMany({
+      include: POSITION_INCLUDE,
+      orderBy: { title: 'asc' },
+    });
+
+    return {
+      total: positions.length,
+      positions: positions.map((position) => this.toResponse(position)),
+    };
+  }
+
+  async getPosition(id: string): Promise<PositionResponseDto> {
+    return this.toResponse(await this.findPositionOrThrow(id));
+  }
+
+  async updatePosition(
+    id: string,
+    request: UpdatePositionDto,
+  ): Promise<PositionResponseDto> {
+    await this.findPositionOrThrow(id);
+
+    const title = request.title?.trim();
+    if (title) {
+      await this.assertTitleAvailable(title, id);
+    }
+    await this.assertBindings(request);
+
+    const position = await this.prisma.jobPosition.update({
+      where: { id },
+      data: {
+        title,
+        jobDescriptionId: request.jobDescriptionId,
+        caseStudyId: request.caseStudyId,
+        cvRubricId: request.cvRubricId,
+        projectRubricId: request.projectRubricId,
+      },
+      include: POSITION_INCLUDE,
+    });
+
+    this.logger.log(`Updated position ${position.title} (${position.id})`);
+
+    return this.toResponse(position);
+  }
+
+  async deletePosition(id: string): Promise<void> {
+    const position = await this.findPositionOrThrow(id);
+
+    await this.prisma.jobPosition.delete({ where: { id } });
+
+    this.logger.log(`Deleted position ${position.title} (${id})`);
+  }
+
+  async findPositionOrThrow(id: string): Promise<PositionWithBindings> {
+    const position = await this.prisma.jobPosition.findUnique({
+      where: { id },
+      include: POSITION_INCLUDE,
+    });
+
+    if (!position) {
+      throw new NotFoundException(`Position with ID ${id} not found`);
+    }
+
+    return position;
+  }
+
+  private async assertTitleAvailable(
+    title: string,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.prisma.jobPosition.findFirst({
+      where: {
+        title: { equals: title, mode: Prisma.QueryMode.insensitive },
+        ...(excludeId ? { id: { not: excludeId } } : {}),
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Position "${existing.title}" already exists`,
+      );
+    }
+  }
+
+  /**
+   * Make sure every bound document and rubric exists and is of the kind
+   * its slot expects
+   */
+  private async assertBindings(
+    bindings: Partial<
+      Pick<
+        JobPosition,
+        'jobDescriptionId' | 'caseStudyId' | 'cvRubricId' | 'projectRubricId'
+      >
+    >,
+  ): Promise<void> {
+    const documentSlots = [
+      [bindings.jobDescriptionId, SystemDocType.JOB_DESCRIPTION],
+      [bindings.caseStudyId, SystemDocType.CASE_STUDY],
+    ] as const;
+    const rubricSlots = [
+      [bindings.cvRubricId, RubricKind.CV],
+      [bindings.projectRubricId, RubricKind.PROJECT],
+    ] as const;
+
+    for (const [id, type] of documentSlots) {
+      if (!id) continue;
+      const document = await this.prisma.systemDocument.findUnique({
+        where: { id },
+      });
+      if (!document) {
+        throw new NotFoundException(`System document with ID ${id} not found`);
+      }
+      if ((document.type as SystemDocType) !== type) {
+        throw new BadRequestException(
+          `System document ${id} is a ${document.type}, expected ${type}`,
+        );
+      }
+    }
+
+    for (const [id, kind] of rubricSlots) {
+      if (!id) continue;
+      const rubric = await this.prisma.rubric.findUnique({ where: { id } });
+      if (!rubric) {
+        throw new NotFoundException(`Rubric with ID ${id} not found`);
+      }
+      if (rubric.kind !== kind) {
+        throw new BadRequestException(
+          `Rubric ${id} is a ${rubric.kind} rubric, expected ${kind}`,
+        );
+      }
+    }
+  }
+
+  private toResponse(position: PositionWithBindings): PositionResponseDto {
+    return {
+      id: position.id,
+      title: position.title,
+      jobDescription: this.systemDocumentsService.toItem(
+        position.jobDescription,
+      ),
+      caseStudy: this.systemDocumentsService.toItem(position.caseStudy),
+      cvRubric: this.rubricsService.toItem(position.cvRubric),
+      projectRubric: this.rubricsService.toItem(position.projectRubric),
+      createdAt: position.createdAt,
+      updatedAt: position.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { EvaluationResult, Job, JobStatus, Prisma } from 'generated/prisma';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { OwnerScope, ownerFilter } from 'src/common/utils/owner-scope.util';
+import { EvalResult } from '../schemas/evaluation.schema';
+import { compositeScore, hasScores } from '../utils/scoring.util';
+import {
+  CRITERION_FILTER_PATTERN,
+  RankingQueryDto,
+} from '../dto/request/ranking-query.dto';
+import { EvaluationReportDto } from '../dto/response/evaluation-job-response.dto';
+import {
+  CompareResponseDto,
+  CriterionComparisonDto,
+  RankingResponseDto,
+} from '../dto/response/ranking-response.dto';
+
+type ScoredResult = EvaluationResult & {
+  cvMatchRate: number;
+  projectScore: number;
+};
+type ScoredJob = Job & { result: ScoredResult };
+
+function isScored(
+  job: Job & { result: EvaluationResult | null },
+): job is ScoredJob {
+  return hasScores(job.result);
+}
+
+const CRITERIA_FIELDS = {
+  cv: 'cvCriteria',
+  project: 'projectCriteria',
+} as const;
+
+@Injectable()
+export class RankingsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async rankCandidates(
+    scope: OwnerScope,
+    query: RankingQueryDto,
+  ): Promise<RankingResponseDto> {
+    const cvWeight = query.cvWeight ?? 0.5;
+    const criterionFilters = (query.minScore ?? []).map((filter) => {
+      const match = filter.match(CRITERION_FILTER_PATTERN);
+      if (!match) {
+        throw new BadRequestException(`Invalid minScore filter "${filter}"`);
+      }
+      const [, kind, criterion, score] = match;
+      return {
+        result: {
+          [CRITERIA_FIELDS[kind as keyof typeof CRITERIA_FIELDS]]: {
+            path: [criterion, 'score'],
+            gte: Number(score),
+          },
+        },
+      } satisfies Prisma.JobWhereInput;
+    });
+
+    const jobs = await this.prisma.job.findMany({
+      where: {
+        ...ownerFilter(scope),
+        status: JobStatus.COMPLETED,
+        jobTitle: {
+          equals: query.jobTitle,
+          mode: Prisma.QueryMode.insensitive,
+        },
+        // Results without both scores have nothing to rank by
+        result: {
+          cvMatchRate: { not: null },
+          projectScore: { not: null },
+        },
+        AND: criterionFilters,
+      },
+      include: { result: true },
+    });
+
+    const ranked = jobs
+      .filter(isScored)
+      .map((job) => ({
+        jobId: job.id,
+        candidateLabel: job.candidateLabel,
+        overallScore: compositeScore(
+          job.result.cvMatchRate,
+          job.result.projectScore,
+          cvWeight,
+        ),
+        result: this.toReport(job.result),
+      }))
+      .sort(
+        (a, b) =>
+          b.overallScore - a.overallScore ||
+          b.result.cv_match_rate - a.result.cv_match_rate,
+      );
+
+    return {
+      jobTitle: query.jobTitle,
+      cvWeight,
+      total: ranked.length,
+      candidates: ranked
+        .slice(0, query.limit ?? 50)
+        .map((candidate, index) => ({ rank: index + 1, ...candidate })),
+    };
+  }
+
+  async compareCandidates(
+    scope: OwnerScope,
+    jobIds: string[],
+  ): Promise<CompareResponseDto> {
+    const found = await this.prisma.job.findMany({
+      where: { id: { in: jobIds }, ...ownerFilter(scope) },
+      include: { result: true },
+    });
+
+    const jobs = jobIds.map((id) => {
+      const job = found.find((candidate) => candidate.id === id);
+      if (!job) {
+        throw new NotFoundException(`Job with ID ${id} not found`);
+      }
+      if (job.status !== JobStatus.COMPLETED) {
+        throw new BadRequestException(`Job ${id} has not completed yet`);
+      }
+      if (!isScored(job)) {
+        throw new BadRequestException(`Job ${id} has no scores to compare`);
+      }
+      return job;
+    });
+
+    return {
+      candidates: jobs.map((job) => ({
+        jobId: job.id,
+        candidateLabel: job.candidateLabel,
+        jobTitle: job.jobTitle,
+        overallScore: compositeScore(
+          job.result.cvMatchRate,
+          job.result.projectScore,
+        ),
+        result: this.toReport(job.result),
+      })),
+      criteria: [
+        ...this.compareCriteria(jobs, 'cv'),
+        ...this.compareCriteria(jobs, 'project'),
+      ],
+    };
+  }
+
+  /**
+   * One row per criterion seen in any of the jobs, with each job's score and
+   * its difference from the first job
+   */
+  private compareCriteria(
+    jobs: ScoredJob[],
+    kind: keyof typeof CRITERIA_FIELDS,
+  ): CriterionComparisonDto[] {
+    const criteriaByJob = jobs.map(
+      (job) =>
+        (job.result[CRITERIA_FIELDS[kind]] ?? {}) as EvalResult['criteria'],
+    );
+
+    const names = [
+      ...new Set(criteriaByJob.flatMap((criteria) => Object.keys(criteria))),
+    ];
+
+    return names.map((name) => {
+      const baseline = criteriaByJob[0][name]?.score ?? null;
+      return {
+        kind,
+        name,
+        displayName:
+          criteriaByJob.find((criteria) => criteria[name])?.[name]
+            .displayName ?? name,
+        scores: jobs.map((job, index) => {
+          const score = criteriaByJob[index][name]?.score ?? null;
+          return {
+            jobId: job.id,
+            score,
+            delta:
+              score !== null && baseline !== null ? score - baseline : null,
+          };
+        }),
+      };
+    });
+  }
+
+  private toReport(result: ScoredResult): EvaluationReportDto {
+    return {
+      cv_match_rate: result.cvMatchRate,
+      cv_feedback: result.cvFeedback || '',
+      project_score: result.projectScore,
+      project_feedback: result.projectFeedback || '',
+      overall_summary: result.overallSummary || '',
+    };
+  }
+}
@@ -0,0 +1,367 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { generateObject } from 'ai';
+import {
+  Rubric as RubricRecord,
+  RubricKind,
+  RubricSource,
+} from 'generated/prisma';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { extractPdfText } from 'src/common/utils/pdf.util';
+import {
+  ModelOverrides,
+  ModelRegistryService,
+  ModelRole,
+} from '../../llm/model-registry.service';
+import { SystemDocumentsService } from './system-documents.service';
+import { Rubric, RubricSchema } from '../schemas/rubric.schema';
+import {
+  generateCvRubricExtractionPrompt,
+  generateProjectRubricExtractionPrompt,
+} from '../prompts/rubric-extraction.prompt';
+import { CreateRubricDto } from '../dto/request/create-rubric.dto';
+import { ImportRubricDto } from '../dto/request/import-rubric.dto';
+import { ListRubricsQueryDto } from '../dto/request/list-rubrics-query.dto';
+import {
+  RubricItemDto,
+  RubricListResponseDto,
+  RubricResponseDto,
+} from '../dto/response/rubric-response.dto';
+import { jobTitleFilter } from '../utils/job-title.util';
+
+export interface LoadedRubric {
+  rubric: Rubric;
+  id?: string;
+  version?: number;
+}
+
+@Injectable()
+export class RubricsService {
+  private readonly logger = new Logger(RubricsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly systemDocumentsService: SystemDocumentsService,
+    private readonly modelRegistry: ModelRegistryService,
+  ) {}
+
+  async createRubric(request: CreateRubricDto): Promise<RubricResponseDto> {
+    const rubric = this.parseRubric({ criteria: request.criteria });
+    this.assertWeights(rubric);
+
+    const record = await this.saveRubric({
+      kind: request.kind,
+      jobTitle: request.jobTitle?.trim() || null,
+      rubric,
+      source: RubricSource.MANUAL,
+      activate: request.activate,
+    });
+
+    return this.toResponse(record);
+  }
+
+  async importRubric(
+    file: Express.Multer.File,
+    request: ImportRubricDto,
+  ): Promise<RubricResponseDto> {
+    if (file.mimetype !== 'application/pdf') {
+      throw new BadRequestException('File must be a PDF');
+    }
+
+    const content = await extractPdfText({ data: file.buffer });
+    if (!content) {
+      throw new BadRequestException(
+        'PDF file appears to be empty or contains no extractable text',
+      );
+    }
+
+    const rubric = await this.extractRubric(request.kind, content);
+
+    // Imported rubrics stay inactive until reviewed and activated
+    const record = await this.saveRubric({
+      kind: request.kind,
+      jobTitle: request.jobTitle?.trim() || null,
+      rubric,
+      source: RubricSource.PDF_IMPORT,
+      sourceFilename: file.originalname,
+      activate: false,
+    });
+
+    return this.toResponse(record);
+  }
+
+  async listRubrics(
+    query: ListRubricsQueryDto,
+  ): Promise<RubricListResponseDto> {
+    const rubrics = await this.prisma.rubric.findMany({
+      where: {
+        kind: query.kind,
+        isActive: query.active || undefined,
+        jobTitle: query.jobTitle
+          ? jobTitleFilter(query.jobTitle.trim())
+          : undefined,
+      },
+      orderBy: [{ kind: 'asc' }, { jobTitle: 'asc' }, { version: 'desc' }],
+    });
+
+    return {
+      total: rubrics.length,
+      rubrics: rubrics.map((rubric) => this.toItem(rubric)),
+    };
+  }
+
+  async getRubric(id: string): Promise<RubricResponseDto> {
+    return this.toResponse(await this.findRubricOrThrow(id));
+  }
+
+  async activateRubric(id: string): Promise<RubricResponseDto> {
+    const record = await this.findRubricOrThrow(id);
+    this.assertWeights(this.parseRubric(record.criteria));
+
+    const [, activated] = await this.prisma.$transaction([
+      this.prisma.rubric.updateMany({
+        where: {
+          kind: record.kind,
+          jobTitle: jobTitleFilter(record.jobTitle),
+          id: { not: id },
+        },
+        data: { isActive: false },
+      }),
+      this.prisma.rubric.update({
+        where: { id },
+        data: { isActive: true },
+      }),
+    ]);
+
+    this.logger.log(
+      `Activated ${activated.kind} rubric v${activated.version}${activated.jobTitle ? ` for ${activated.jobTitle}` : ''}`,
+    );
+
+    return this.toResponse(activated);
+  }
+
+  /**
+   * Find the active rubric for a job title, preferring a job-specific rubric
+   * over the shared one
+   */
+  async findActiveRubric(
+    kind: RubricKind,
+    jobTitle: string,
+  ): Promise<RubricRecord | null> {
+    const candidates = await this.prisma.rubric.findMany({
+      where: {
+        kind,
+        isActive: true,
+        OR: [{ jobTitle: null }, { jobTitle: jobTitleFilter(jobTitle) }],
+      },
+    });
+
+    return (
+      candidates.find((rubric) => rubric.jobTitle !== null) ??
+      candidates[0] ??
+      null
+    );
+  }
+
+  /**
+   * Load the rubric an evaluation is scored against.
+   *
+   * Jobs pin a stored rubric at submission. Jobs without one (no rubric was
+   * active at the time) fall back to extracting the rubric document.
+   */
+  async loadRubric(
+    kind: RubricKind,
+    options: {
+      rubricId?: string;
+      jobTitle?: string;
+      models?: ModelOverrides;
+      organizationId?: string;
+    },
+  ): Promise<LoadedRubric> {
+    if (options.rubricId) {
+      const record = await this.findRubricOrThrow(options.rubricId);
+      this.logger.log(
+        `Using pinned ${kind} rubric v${record.version} (${record.id})`,
+      );
+      return {
+        rubric: this.parseRubric(record.criteria),
+        id: record.id,
+        version: record.version,
+      };
+    }
+
+    this.logger.warn(
+      `No stored ${kind} rubric pinned, extracting from rubric document`,
+    );
+    const rawRubric = await this.systemDocumentsService.getRubricDocument(
+      kind,
+      options.jobTitle,
+      options.organizationId,
+    );
+    this.logger.debug(`Retrieved raw rubric (${rawRubric.length} chars)`);
+
+    const rubric = await this.extractRubric(kind, rawRubric, options.models);
+    const totalWeight = this.totalWeight(rubric);
+    if (Math.abs(totalWeight - 100) > 0.1) {
+      if (kind === RubricKind.CV) {
+        this.logger.error(
+          `CV Rubric weights sum to ${totalWeight}% instead of 100%. This is a fatal error.`,
+        );
+        throw new InternalServerErrorException(
+          `CV Rubric is misconfigured. Weights sum to ${totalWeight}%, not 100%.`,
+        );
+      }
+      this.logger.warn(`Rubric weights sum to ${totalWeight}% instead of 100%`);
+    }
+
+    return { rubric };
+  }
+
+  private async extractRubric(
+    kind: RubricKind,
+    rawRubric: string,
+    models?: ModelOverrides,
+  ): Promise<Rubric> {
+    const model = this.modelRegistry.resolve(
+      ModelRole.RUBRIC_EXTRACTION,
+      models,
+    );
+    const result = await generateObject({
+      model: model.instance,
+      temperature: model.temperature,
+      schema: RubricSchema,
+      prompt:
+        kind === RubricKind.CV
+          ? generateCvRubricExtractionPrompt(rawRubric)
+          : generateProjectRubricExtractionPrompt(rawRubric),
+    });
+
+    const rubric = result.object;
+    this.logger.log(
+      `Extracted ${kind} rubric with ${rubric.criteria.length} criteria (total weight: ${this.totalWeight(rubric)}%)`,
+    );
+
+    return rubric;
+  }
+
+  private async saveRubric(params: {
+    kind: RubricKind;
+    jobTitle: string | null;
+    rubric: Rubric;
+    source: RubricSource;
+    sourceFilename?: string;
+    activate?: boolean;
+  }): Promise<RubricRecord> {
+    const record = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.rubric.findMany({
+        where: { kind: params.kind, jobTitle: jobTitleFilter(params.jobTitle) },
+        select: { version: true, isActive: true },
+      });
+      const activate =
+        params.activate ?? !existing.some((rubric) => rubric.isActive);
+
+      if (activate) {
+        await tx.rubric.updateMany({
+          where: {
+            kind: params.kind,
+            jobTitle: jobTitleFilter(params.jobTitle),
+          },
+          data: { isActive: false },
+        });
+      }
+
+      return tx.rubric.create({
+        data: {
+          kind: params.kind,
+          jobTitle: params.jobTitle,
+          version: Math.max(0, ...existing.map((r) => r.version)) + 1,
+          criteria: params.rubric.criteria,
+          source: params.source,
+          sourceFilename: params.sourceFilename,
+          isActive: activate,
+        },
+      });
+    });
+
+    this.logger.log(
+      `Saved ${record.kind} rubric v${record.version} (${record.id}, active: ${record.isActive})`,
+    );
+
+    return record;
+  }
+
+  private parseRubric(value: unknown): Rubric {
+    const criteria = Array.isArray(value)
+      ? value
+      : (value as { criteria?: unknown })?.criteria;
+    const result = RubricSchema.safeParse({ criteria });
+
+    if (!result.success) {
+      throw new BadRequestException(
+        result.error.issues.map(
+          (issue) => `${issue.path.join('.')}: ${issue.message}`,
+        ),
+      );
+    }
+
+    return result.data;
+  }
+
+  private assertWeights(rubric: Rubric): void {
+    const names = rubric.criteria.map((criterion) => criterion.name);
+    const duplicates = names.filter(
+      (name, index) => names.indexOf(name) !== index,
+    );
+    if (duplicates.length > 0) {
+      throw new BadRequestException(
+        `Duplicate criterion names: ${[...new Set(duplicates)].join(', ')}`,
+      );
+    }
+
+    const totalWeight = this.totalWeight(rubric);
+    if (Math.abs(totalWeight - 100) > 0.1) {
+      throw new BadRequestException(
+        `Rubric weights sum to ${totalWeight}%, not 100%`,
+      );
+    }
+  }
+
+  private totalWeight(rubric: Rubric): number {
+    return rubric.criteria.reduce((sum, c) => sum + c.weight, 0);
+  }
+
+  private async findRubricOrThrow(id: string): Promise<RubricRecord> {
+    const rubric = await this.prisma.rubric.findUnique({ where: { id } });
+
+    if (!rubric) {
+      throw new NotFoundException(`Rubric with ID ${id} not found`);
+    }
+
+    return rubric;
+  }
+
+  toItem(rubric: RubricRecord): RubricItemDto {
+    return {
+      id: rubric.id,
+      kind: rubric.kind,
+      jobTitle: rubric.jobTitle,
+      version: rubric.version,
+      source: rubric.source,
+      sourceFilename: rubric.sourceFilename,
+      isActive: rubric.isActive,
+      createdAt: rubric.createdAt,
+    };
+  }
+
+  private toResponse(rubric: RubricRecord): RubricResponseDto {
+    return {
+      ...this.toItem(rubric),
+      criteria: this.parseRubric(rubric.criteria).criteria,
+    };
+  }
+}
@@ -1,34 +1,49 @@
 import {
+  Inject,
   Injectable,
   BadRequestException,
+  ConflictException,
   InternalServerErrorException,
   Logger,
+  NotFoundException,
 } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import {
   SystemDocMetadataDto,
   SystemDocType,
 } from '../dto/request/system-doc-metadata.dto';
 import { UploadSystemDocDto } from '../dto/request/upload-system-doc.dto';
 import { UploadedDocumentDto } from '../dto/response/system-doc-upload-response.dto';
-import { RagieRetrievalResponse } from '../dto/response/ragie/ragie-retreival-response.dto';
-import { RagieUploadResponse } from '../dto/response/ragie/ragie-upload-response.dto';
-import { Rubric, RubricSchema } from '../schemas/rubric.schema';
-import { generateObject } from 'ai';
-import { openai } from '@ai-sdk/openai';
-import { fetchWithRetry } from 'src/common/utils/fetch.util';
+import { ListSystemDocsQueryDto } from '../dto/request/list-system-docs-query.dto';
+import {
+  SystemDocDetailDto,
+  SystemDocItemDto,
+  SystemDocListResponseDto,
+} from '../dto/response/system-doc-response.dto';
+import { RETRIEVAL_BACKEND } from '../../retrieval/retrieval-backend.interface';
+import type { RetrievalBackend } from '../../retrieval/retrieval-backend.interface';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { StorageService } from '../../storage/storage.service';
+import { extractPdfText } from 'src/common/utils/pdf.util';
+import { RubricKind, SystemDocument } from 'generated/prisma';
+import { jobTitleFilter } from '../utils/job-title.util';
 
 @Injectable()
 export class SystemDocumentsService {
   private readonly logger = new Logger(SystemDocumentsService.name);
-  private readonly ragieApiKey: string;
-  private readonly ragieApiUrl = 'https://api.ragie.ai';
-
-  constructor(private readonly configService: ConfigService) {
-    this.ragieApiKey = this.configService.getOrThrow<string>('RAGIE_API_KEY');
-  }
 
+  constructor(
+    @Inject(RETRIEVAL_BACKEND)
+    private readonly retrievalBackend: RetrievalBackend,
+    private readonly prisma: PrismaService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  /**
+   * Documents belong to an organization, or to the platform when
+   * `organizationId` is null. Versions and activation are tracked per owner.
+   */
   async uploadSystemDocument(
+    organizationId: string | null,
     file: Express.Multer.File,
     uploadDto: UploadSystemDocDto,
   ): Promise<UploadedDocumentDto> {
@@ -36,55 +51,231 @@ export class SystemDocumentsService {
       throw new BadRequestException('File must be a PDF');
     }
 
+    const jobTitle = uploadDto.jobTitle?.trim() || null;
+    const content = await this.extractContent(file);
+
+    const existing = await this.prisma.systemDocument.findMany({
+      where: {
+        type: uploadDto.type,
+        jobTitle: jobTitleFilter(jobTitle),
+        organizationId,
+      },
+      select: { version: true, isActive: true },
+    });
+
+    const version = uploadDto.version ?? `${existing.length + 1}.0`;
+    if (existing.some((document) => document.version === version)) {
+      throw new ConflictException(
+        `Version ${version} of ${uploadDto.type} already exists${jobTitle ? ` for ${jobTitle}` : ''}`,
+      );
+    }
+    const activate =
+      uploadDto.activate ?? !existing.some((document) => document.isActive);
+
     const metadata: SystemDocMetadataDto = {
       type: uploadDto.type,
-      version: uploadDto.version,
+      version,
+      ...(jobTitle && { jobTitle }),
     };
+    const documentId = crypto.randomUUID();
+    const path = `system-docs/${metadata.type}/${Date.now()}-${file.originalname}`;
+    let retrievalId: string | undefined;
 
     try {
-      const result = await this.uploadToRagie(file, metadata);
-      this.logger.log('Successfully uploaded document to Ragie');
-      return result;
+      await this.storageService.upload(file.buffer, path, {
+        contentType: file.mimetype,
+        metadata: { documentId, type: metadata.type },
+      });
+
+      const indexed = await this.retrievalBackend.indexDocument({
+        buffer: file.buffer,
+        filename: file.originalname,
+        mimetype: file.mimetype,
+        documentType: metadata.type,
+        organizationId: organizationId ?? undefined,
+        metadata: {
+          documentId,
+          version,
+          ...(jobTitle && { jobTitle }),
+        },
+      });
+      retrievalId = indexed.id;
+
+      const document = await this.prisma.$transaction(async (tx) => {
+        if (activate) {
+          await tx.systemDocument.updateMany({
+            where: {
+              type: metadata.type,
+              jobTitle: jobTitleFilter(jobTitle),
+              organizationId,
+            },
+            data: { isActive: false },
+          });
+        }
+
+        return tx.systemDocument.create({
+          data: {
+            id: documentId,
+            type: metadata.type,
+            jobTitle,
+            version,
+            filename: file.originalname,
+            path,
+            content,
+            retrievalId,
+            isActive: activate,
+            organizationId,
+          },
+        });
+      });
+
+      this.logger.log(
+        `Stored ${metadata.type} v${version} (Doc ID: ${documentId}, active: ${activate}) with ${this.retrievalBackend.type} retrieval`,
+      );
+
+      return {
+        retrievalId: indexed.id,
+        filename: file.originalname,
+        isActive: document.isActive,
+        metadata: {
+          ...metadata,
+          id: document.id,
+          version,
+        },
+      };
     } catch (error) {
-      this.logger.error('Failed to upload document to Ragie', error);
-      throw new InternalServerErrorException(
-        'Failed to upload document to Ragie',
+      await Promise.allSettled([
+        this.storageService.delete(path),
+        ...(retrievalId
+          ? [this.retrievalBackend.deleteDocument(retrievalId)]
+          : []),
+      ]);
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      this.logger.error('Failed to store system document', error);
+      throw new InternalServerErrorException('Failed to store system document');
+    }
+  }
+
+  async listSystemDocuments(
+    organizationId: string | null,
+    query: ListSystemDocsQueryDto,
+  ): Promise<SystemDocListResponseDto> {
+    const documents = await this.prisma.systemDocument.findMany({
+      where: {
+        organizationId,
+        type: query.type,
+        isActive: query.active || undefined,
+        jobTitle: query.jobTitle
+          ? jobTitleFilter(query.jobTitle.trim())
+          : undefined,
+      },
+      orderBy: [{ type: 'asc' }, { jobTitle: 'asc' }, { createdAt: 'desc' }],
+    });
+
+    return {
+      total: documents.length,
+      documents: documents.map((document) => this.toItem(document)),
+    };
+  }
+
+  async getSystemDocument(
+    organizationId: string | null,
+    id: string,
+  ): Promise<SystemDocDetailDto> {
+    const document = await this.findDocumentOrThrow(id, organizationId);
+
+    return {
+      ...this.toItem(document),
+      content: document.content,
+      url: await this.storageService.getUrl(document.path),
+    };
+  }
+
+  async activateSystemDocument(
+    organizationId: string | null,
+    id: string,
+  ): Promise<SystemDocItemDto> {
+    const document = await this.findDocumentOrThrow(id, organizationId);
+
+    const [, activated] = await this.prisma.$transaction([
+      this.prisma.systemDocument.updateMany({
+        where: {
+          type: document.type,
+          jobTitle: jobTitleFilter(document.jobTitle),
+          organizationId,
+          id: { not: id },
+        },
+        data: { isActive: false },
+      }),
+      this.prisma.systemDocument.update({
+        where: { id },
+        data: { isActive: true },
+      }),
+    ]);
+
+    this.logger.log(
+      `Activated ${activated.type} v${activated.version}${activated.jobTitle ? ` for ${activated.jobTitle}` : ''}`,
+    );
+
+    return this.toItem(activated);
+  }
+
+  async deleteSystemDocument(
+    organizationId: string | null,
+    id: string,
+  ): Promise<void> {
+    const document = await this.findDocumentOrThrow(id, organizationId);
+
+    const positions = await this.prisma.jobPosition.findMany({
+      where: { OR: [{ jobDescriptionId: id }, { caseStudyId: id }] },
+      select: { title: true },
+    });
+    if (positions.length > 0) {
+      throw new ConflictException(
+        `System document is bound to positions: ${positions.map((position) => position.title).join(', ')}`,
       );
     }
+
+    await this.prisma.systemDocument.delete({ where: { id } });
+
+    const results = await Promise.allSettled([
+      this.storageService.delete(document.path),
+      ...(document.retrievalId
+        ? [this.retrievalBackend.deleteDocument(document.retrievalId)]
+        : []),
+    ]);
+    results
+      .filter((result) => result.status === 'rejected')
+      .forEach((result) =>
+        this.logger.warn(
+          `Cleanup after deleting system document ${id} failed: ${result.reason}`,
+        ),
+      );
+
+    this.logger.log(`Deleted ${document.type} v${document.version} (${id})`);
   }
 
+  /**
+   * Retrieve a document by similarity, searching platform documents and
+   * those of the given organization only
+   */
   async retrieveDocument(
     docType: SystemDocType,
     query: string,
+    organizationId?: string,
   ): Promise<string> {
     try {
-      const response = await fetchWithRetry(`${this.ragieApiUrl}/retrievals`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${this.ragieApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query,
-          rerank: true,
-          filter: {
-            documentType: docType,
-          },
-          top_k: 5,
-        }),
+      const chunks = await this.retrievalBackend.retrieve({
+        documentType: docType,
+        organizationId,
+        query,
+        topK: 5,
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        this.logger.error(
-          `Ragie retrieval error for ${docType}: ${response.status} - ${errorText}`,
-        );
-        throw new Error(`Ragie retrieval error: ${response.status}`);
-      }
-
-      const result = (await response.json()) as RagieRetrievalResponse;
-
-      if (!result.scored_chunks || result.scored_chunks.length === 0) {
+      if (chunks.length === 0) {
         this.logger.warn(
           `No documents found for type: ${docType} with query: ${query}`,
         );
@@ -93,187 +284,182 @@ export class SystemDocumentsService {
         );
       }
 
-      const content = result.scored_chunks
+      const content = chunks
         .sort((a, b) => b.score - a.score)
         .map((chunk) => chunk.text)
         .join('\n\n');
 
-      this.logger.log(
-        `Retrieved ${result.scored_chunks.length} chunks for ${docType}`,
-      );
+      this.logger.log(`Retrieved ${chunks.length} chunks for ${docType}`);
 
       return content;
     } catch (error) {
       if (error instanceof BadRequestException) {
         throw error;
       }
-      this.logger.error(`Failed to retrieve ${docType} from Ragie`, error);
-      throw new InternalServerErrorException(
-        `Failed to retrieve ${docType} from Ragie`,
-      );
+      this.logger.error(`Failed to retrieve ${docType}`, error);
+      throw new InternalServerErrorException(`Failed to retrieve ${docType}`);
     }
   }
 
-  private async uploadToRagie(
-    file: Express.Multer.File,
-    metadata: SystemDocMetadataDto,
-  ): Promise<UploadedDocumentDto> {
-    try {
-      const formData = new FormData();
-      const uint8Array = new Uint8Array(file.buffer);
-      const blob = new Blob([uint8Array], { type: file.mimetype });
-      formData.append('file', blob, file.originalname);
-
-      const documentId = crypto.randomUUID();
-      const ragieMetadata = {
-        documentId,
-        documentType: metadata.type,
-        ...(metadata.version && { version: metadata.version }),
-        uploadedAt: new Date().toISOString(),
-      };
-      formData.append('metadata', JSON.stringify(ragieMetadata));
-
-      const response = await fetch(`${this.ragieApiUrl}/documents`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${this.ragieApiKey}`,
-        },
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        this.logger.error(
-          `Ragie API error for ${file.originalname}: ${response.status} - ${errorText}`,
-        );
-        throw new Error(`Ragie API error: ${response.status}`);
-      }
-
-      const result = (await response.json()) as RagieUploadResponse;
-
-      this.logger.log(
-        `Document uploaded to Ragie: ${file.originalname} (Doc ID: ${documentId}, Ragie ID: ${result.id})`,
-      );
-
-      return {
-        ragieId: result.id,
-        filename: file.originalname,
-        metadata: {
-          id: documentId,
-          type: metadata.type,
-          version: metadata.version || 'v1.0',
-        },
-      };
-    } catch (error) {
-      this.logger.error(
-        `Failed to upload ${file.originalname} to Ragie`,
-        error,
-      );
-      throw error;
+  async getJobDescription(
+    jobTitle: string,
+    documentId?: string,
+    organizationId?: string,
+  ): Promise<string> {
+    if (documentId) {
+      return this.getBoundDocument(documentId);
     }
-  }
 
-  async getJobDescription(jobTitle: string): Promise<string> {
-    return this.retrieveDocument(
-      SystemDocType.JOB_DESCRIPTION,
+    return this.resolveDocument(
+      [SystemDocType.JOB_DESCRIPTION],
+      jobTitle,
+      organizationId,
       `job description for ${jobTitle}`,
     );
   }
 
-  async getCaseStudy(jobTitle: string): Promise<string> {
-    return this.retrieveDocument(
-      SystemDocType.CASE_STUDY,
+  async getCaseStudy(
+    jobTitle: string,
+    documentId?: string,
+    organizationId?: string,
+  ): Promise<string> {
+    if (documentId) {
+      return this.getBoundDocument(documentId);
+    }
+
+    return this.resolveDocument(
+      [SystemDocType.CASE_STUDY],
+      jobTitle,
+      organizationId,
       `case study for ${jobTitle}`,
     );
   }
 
-  async getCvRubric(): Promise<Rubric> {
-    this.logger.log('Loading CV rubric from Ragie');
-
-    const rawRubric = await this.retrieveDocument(
-      SystemDocType.RUBRIC,
-      'CV evaluation rubric criteria',
-    );
+  async getRubricDocument(
+    kind: RubricKind,
+    jobTitle?: string,
+    organizationId?: string,
+  ): Promise<string> {
+    return kind === RubricKind.CV
+      ? this.resolveDocument(
+          [SystemDocType.CV_RUBRIC, SystemDocType.RUBRIC],
+          jobTitle,
+          organizationId,
+          'CV evaluation rubric criteria',
+        )
+      : this.resolveDocument(
+          [SystemDocType.PROJECT_RUBRIC, SystemDocType.RUBRIC],
+          jobTitle,
+          organizationId,
+          'Project evaluation rubric criteria scoring',
+        );
+  }
 
-    this.logger.debug(`Retrieved raw rubric (${rawRubric.length} chars)`);
-    const result = await generateObject({
-      model: openai('gpt-5-mini'),
-      schema: RubricSchema,
-      prompt: `Extract the CV evaluation rubric from the following content.
-
-RUBRIC CONTENT:
-${rawRubric}
-
-INSTRUCTIONS:
-- This is a rubric for evaluating candidate CVs
-- Extract each CV evaluation criterion with its name, weight, description, and scoring guide
-- Convert criterion names to snake_case format (e.g., "Technical Skills Match" -> "technical_skills_match")
-- Keep displayName as the original human-readable format
-- Extract the exact scoring descriptions from the rubric
-- Weights should be numbers (e.g., 40 for 40%) and must sum to 100%
-- Scoring guide must have clear descriptions for CV evaluation scores 1 to 5
-
-Return a structured CV evaluation rubric with all criteria properly weighted.`,
+  /**
+   * Resolve the content of the active document for a job title.
+   *
+   * The organization's own documents win over platform ones, job-specific
+   * documents win over shared ones, and earlier types in `types` win over
+   * later ones. When nothing is active the document is looked up through
+   * retrieval, which covers documents uploaded before the registry.
+   */
+  private async resolveDocument(
+    types: SystemDocType[],
+    jobTitle: string | undefined,
+    organizationId: string | undefined,
+    fallbackQuery: string,
+  ): Promise<string> {
+    const candidates = await this.prisma.systemDocument.findMany({
+      where: {
+        type: { in: types },
+        isActive: true,
+        OR: [
+          { jobTitle: null },
+          ...(jobTitle ? [{ jobTitle: jobTitleFilter(jobTitle) }] : []),
+        ],
+        AND: {
+          OR: [
+            { organizationId: null },
+            ...(organizationId ? [{ organizationId }] : []),
+          ],
+        },
+      },
     });
 
-    const rubric = result.object;
-    const totalWeight = rubric.criteria.reduce((sum, c) => sum + c.weight, 0);
-    this.logger.log(
-      `Loaded CV rubric with ${rubric.criteria.length} criteria (total weight: ${totalWeight}%)`,
-    );
+    const rank = (document: SystemDocument) =>
+      (document.organizationId ? 0 : 2 * types.length) +
+      (document.jobTitle ? 0 : types.length) +
+      types.indexOf(document.type as SystemDocType);
+    const [active] = candidates.sort((a, b) => rank(a) - rank(b));
 
-    if (Math.abs(totalWeight - 100) > 0.1) {
-      this.logger.error(
-        `CV Rubric weights sum to ${totalWeight}% instead of 100%. This is a fatal error.`,
-      );
-      throw new InternalServerErrorException(
-        `CV Rubric is misconfigured. Weights sum to ${totalWeight}%, not 100%.`,
+    if (active) {
+      this.logger.log(
+        `Using active ${active.type} v${active.version}${active.jobTitle ? ` for ${active.jobTitle}` : ''} (${active.id})`,
       );
+      return active.content;
     }
 
-    return rubric;
+    const fallbackType = types[types.length - 1];
+    this.logger.warn(
+      `No active ${types.join('/')} document${jobTitle ? ` for ${jobTitle}` : ''}, falling back to retrieval`,
+    );
+    return this.retrieveDocument(fallbackType, fallbackQuery, organizationId);
   }
 
-  async getProjectRubric(): Promise<Rubric> {
-    this.logger.log('Loading project evaluation rubric from RAG');
-
-    const rawRubric = await this.retrieveDocument(
-      SystemDocType.RUBRIC,
-      'Project evaluation rubric criteria scoring',
+  /** Content of a document pinned by a position, regardless of activation */
+  private async getBoundDocument(id: string): Promise<string> {
+    const document = await this.findDocumentOrThrow(id);
+    this.logger.log(
+      `Using bound ${document.type} v${document.version} (${document.id})`,
     );
+    return document.content;
+  }
 
-    this.logger.debug(`Retrieved raw rubric (${rawRubric.length} chars)`);
-
-    const result = await generateObject({
-      model: openai('gpt-5-mini'),
-      schema: RubricSchema,
-      prompt: `Extract the project evaluation rubric from the following content.
-
-RUBRIC CONTENT:
-${rawRubric}
+  private async extractContent(file: Express.Multer.File): Promise<string> {
+    let content: string;
+    try {
+      content = await extractPdfText({ data: file.buffer });
+    } catch (error) {
+      this.logger.error(
+        `Failed to extract text from ${file.originalname}`,
+        error,
+      );
+      throw new BadRequestException('Failed to read PDF file');
+    }
 
-INSTRUCTIONS:
-- This is a rubric for evaluating student project reports
-- Extract each project evaluation criterion with its name, weight, description, and scoring guide
-- Convert criterion names to snake_case format (e.g., "Problem Analysis" -> "problem_analysis")
-- Keep displayName as the original human-readable format
-- Extract the exact scoring descriptions from the rubric
-- Weights should be numbers (e.g., 25 for 25%) and must sum to 100%
-- Scoring guide must have clear descriptions for project scores 1 to 5
+    if (!content) {
+      throw new BadRequestException(
+        'PDF file appears to be empty or contains no extractable text',
+      );
+    }
+    return content;
+  }
 
-Return a structured project evaluation rubric with all criteria properly weighted.`,
+  /** Find a document of `organizationId`, or of any owner when undefined */
+  private async findDocumentOrThrow(
+    id: string,
+    organizationId?: string | null,
+  ): Promise<SystemDocument> {
+    const document = await this.prisma.systemDocument.findFirst({
+      where: { id, organizationId },
     });
 
-    const rubric = result.object;
-    const totalWeight = rubric.criteria.reduce((sum, c) => sum + c.weight, 0);
-    this.logger.log(
-      `Loaded project rubric with ${rubric.criteria.length} criteria (total weight: ${totalWeight}%)`,
-    );
-
-    if (Math.abs(totalWeight - 100) > 0.1) {
-      this.logger.warn(`Rubric weights sum to ${totalWeight}% instead of 100%`);
+    if (!document) {
+      throw new NotFoundException(`System document with ID ${id} not found`);
     }
 
-    return rubric;
+    return document;
+  }
+
+  toItem(document: SystemDocument): SystemDocItemDto {
+    return {
+      id: document.id,
+      type: document.type,
+      jobTitle: document.jobTitle,
+      version: document.version,
+      filename: document.filename,
+      isActive: document.isActive,
+      createdAt: document.createdAt,
+    };
   }
 }
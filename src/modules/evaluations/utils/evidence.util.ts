@@ -0,0 +1,63 @@
+// A type alias rather than an interface so it is assignable to Prisma JSON
+export type EvidenceCitation = {
+  quote: string;
+  /** 1-based page the quote starts on, null when it was not found */
+  page: number | null;
+  /** Character offset of the quote in the extracted text */
+  offset: number | null;
+  verified: boolean;
+};
+
+/** pdf-parse closes every page with a `-- <page> of <total> --` marker */
+const PAGE_MARKER = /-- \d+ of \d+ --/g;
+
+/**
+ * Locate a quoted excerpt in extracted document text.
+ *
+ * Matching ignores case, whitespace runs and typographic quote/dash variants,
+ * since PDF extraction rarely preserves those exactly.
+ */
+export function locateQuote(text: string, quote: string): EvidenceCitation {
+  const needle = normalize(quote).text.trim();
+  const haystack = normalize(text);
+  const index = needle ? haystack.text.indexOf(needle) : -1;
+
+  if (index === -1) {
+    return { quote, page: null, offset: null, verified: false };
+  }
+
+  const offset = haystack.offsets[index];
+  const pagesBefore = [...text.slice(0, offset).matchAll(PAGE_MARKER)].length;
+
+  return { quote, page: pagesBefore + 1, offset, verified: true };
+}
+
+/**
+ * Canonical form of `text` plus, for each character of it, the offset of the
+ * character it came from in the original
+ */
+function normalize(text: string): { text: string; offsets: number[] } {
+  let result = '';
+  const offsets: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      if (result.length > 0 && !result.endsWith(' ')) {
+        result += ' ';
+        offsets.push(i);
+      }
+      continue;
+    }
+
+    const folded = char
+      .toLowerCase()
+      .replace(/[‘’]/, "'")
+      .replace(/[“”]/, '"')
+      .replace(/[–—]/, '-');
+    result += folded;
+    offsets.push(...Array<number>(folded.length).fill(i));
+  }
+
+  return { text: result, offsets };
+}
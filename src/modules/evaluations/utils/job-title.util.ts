@@ -0,0 +1,13 @@
+import { Prisma } from 'generated/prisma';
+
+/**
+ * Prisma filter matching a job title case-insensitively, or only shared
+ * records (no job title) when given null
+ */
+export function jobTitleFilter(
+  jobTitle: string | null,
+): Prisma.StringNullableFilter | null {
+  return jobTitle === null
+    ? null
+    : { equals: jobTitle, mode: Prisma.QueryMode.insensitive };
+}
@@ -0,0 +1,43 @@
+/** Map a 1-5 criterion score onto 0-100 */
+export function normalizeScore(score: number): number {
+  return ((score - 1) / 4) * 100;
+}
+
+/** Points a criterion adds to the 0-100 weighted score */
+export function criterionContribution(score: number, weight: number): number {
+  return normalizeScore(score) * (weight / 100);
+}
+
+/**
+ * Blend a 0-1 CV match rate and a 1-5 project score into one 0-1 score
+ * @param cvWeight - Share of the CV match rate, the rest goes to the project
+ */
+export function compositeScore(
+  cvMatchRate: number,
+  projectScore: number,
+  cvWeight = 0.5,
+): number {
+  const project = (projectScore - 1) / 4;
+  return (
+    Math.round((cvWeight * cvMatchRate + (1 - cvWeight) * project) * 100) / 100
+  );
+}
+
+interface Scores {
+  cvMatchRate: number | null;
+  projectScore: number | null;
+}
+
+/**
+ * Whether a result has both scores. Failed or partial results have none to
+ * rank by and must not be treated as zeros.
+ */
+export function hasScores<T extends Scores>(
+  result: T | null,
+): result is T & { cvMatchRate: number; projectScore: number } {
+  return (
+    result !== null &&
+    result.cvMatchRate !== null &&
+    result.projectScore !== null
+  );
+}
@@ -0,0 +1,23 @@
+import { UnrecoverableError } from 'bullmq';
+import { LLMError } from 'src/common/utils/llm.util';
+
+/**
+ * Wrap errors that would fail the same way on every attempt, such as a
+ * rejected request or an unknown model, so BullMQ fails the job right away
+ * instead of using up its retries. The original error is kept as the cause.
+ */
+export function failFastIfPermanent(error: unknown): unknown {
+  if (error instanceof LLMError && !error.isRetryable) {
+    const unrecoverable = new UnrecoverableError(error.message);
+    unrecoverable.cause = error;
+    return unrecoverable;
+  }
+  return error;
+}
+
+/** The error a stage actually failed with, unwrapped from failFastIfPermanent */
+export function stageError(error: Error): Error {
+  return error instanceof UnrecoverableError && error.cause instanceof Error
+    ? error.cause
+    : error;
+}
@@ -0,0 +1,49 @@
+import { ConfigService } from '@nestjs/config';
+import { ModelProvider, ModelRegistryService } from './model-registry.service';
+
+function registry(config: Record<string, string> = {}) {
+  return new ModelRegistryService({
+    get: (key: string, fallback?: string) => config[key] ?? fallback,
+  } as ConfigService);
+}
+
+describe('ModelRegistryService', () => {
+  it('accepts the configured models and allowlisted overrides', () => {
+    const models = registry({
+      LLM_ALLOWED_OVERRIDES: 'anthropic:claude-sonnet-4-5, openai:gpt-4o',
+    });
+
+    expect(() =>
+      models.assertOverridesAllowed({
+        cvScoring: { provider: ModelProvider.OPENAI, model: 'gpt-4o-mini' },
+        summary: {
+          provider: ModelProvider.ANTHROPIC,
+          model: 'claude-sonnet-4-5',
+        },
+      }),
+    ).not.toThrow();
+  });
+
+  it('rejects models that are not allowlisted', () => {
+    expect(() =>
+      registry().assertOverridesAllowed({
+        cvScoring: { provider: ModelProvider.OPENAI, model: 'o1-pro' },
+      }),
+    ).toThrow('Model openai:o1-pro is not allowed');
+  });
+
+  it('accepts the fake provider only in offline runs', () => {
+    const overrides = {
+      cvScoring: { provider: ModelProvider.FAKE, model: 'cv-scoring' },
+    };
+
+    expect(() =>
+      registry({
+        LLM_ALLOWED_OVERRIDES: 'fake:cv-scoring',
+      }).assertOverridesAllowed(overrides),
+    ).toThrow('only available when LLM_PROVIDER=fake');
+    expect(() =>
+      registry({ LLM_PROVIDER: 'fake' }).assertOverridesAllowed(overrides),
+    ).not.toThrow();
+  });
+});
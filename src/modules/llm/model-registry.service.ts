@@ -0,0 +1,220 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LanguageModel } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { anthropic } from '@ai-sdk/anthropic';
+import { google } from '@ai-sdk/google';
+import { FakeLanguageModel } from './providers/fake-language-model';
+
+export enum ModelRole {
+  RUBRIC_EXTRACTION = 'rubric-extraction',
+  CV_SCORING = 'cv-scoring',
+  PROJECT_SCORING = 'project-scoring',
+  SUMMARY = 'summary',
+}
+
+export enum ModelProvider {
+  OPENAI = 'openai',
+  ANTHROPIC = 'anthropic',
+  GOOGLE = 'google',
+  FAKE = 'fake',
+}
+
+export interface ModelConfig {
+  provider: ModelProvider;
+  model: string;
+  temperature?: number;
+}
+
+/**
+ * Per-job model overrides, keyed by role
+ */
+export interface ModelOverrides {
+  rubricExtraction?: ModelConfig;
+  cvScoring?: ModelConfig;
+  projectScoring?: ModelConfig;
+  summary?: ModelConfig;
+}
+
+export interface ResolvedModel extends ModelConfig {
+  role: ModelRole;
+  instance: LanguageModel;
+}
+
+const DEFAULT_MODELS: Record<ModelRole, ModelConfig> = {
+  [ModelRole.RUBRIC_EXTRACTION]: {
+    provider: ModelProvider.OPENAI,
+    model: 'gpt-5-mini',
+  },
+  [ModelRole.CV_SCORING]: {
+    provider: ModelProvider.OPENAI,
+    model: 'gpt-4o-mini',
+    temperature: 0.1,
+  },
+  [ModelRole.PROJECT_SCORING]: {
+    provider: ModelProvider.OPENAI,
+    model: 'gpt-4o-mini',
+    temperature: 0.1,
+  },
+  [ModelRole.SUMMARY]: {
+    provider: ModelProvider.OPENAI,
+    model: 'gpt-4o-mini',
+    temperature: 0.2,
+  },
+};
+
+const OVERRIDE_KEYS: Record<ModelRole, keyof ModelOverrides> = {
+  [ModelRole.RUBRIC_EXTRACTION]: 'rubricExtraction',
+  [ModelRole.CV_SCORING]: 'cvScoring',
+  [ModelRole.PROJECT_SCORING]: 'projectScoring',
+  [ModelRole.SUMMARY]: 'summary',
+};
+
+@Injectable()
+export class ModelRegistryService {
+  private readonly logger = new Logger(ModelRegistryService.name);
+  private readonly configured: Record<ModelRole, ModelConfig>;
+  /** `provider:model` pairs a job may override a role with */
+  private readonly allowedOverrides: Set<string>;
+  /** Whether the fake provider may be chosen per job (offline runs only) */
+  private readonly fakeOverridesAllowed: boolean;
+  private readonly factories: Record<
+    ModelProvider,
+    (modelId: string) => LanguageModel
+  >;
+
+  constructor(private readonly configService: ConfigService) {
+    const fakeOptions = {
+      seed: Number(this.configService.get<string>('LLM_FAKE_SEED', '0')),
+      fixturesDir: this.configService.get<string>('LLM_FAKE_FIXTURES_DIR'),
+    };
+    this.factories = {
+      [ModelProvider.OPENAI]: (modelId) => openai(modelId),
+      [ModelProvider.ANTHROPIC]: (modelId) => anthropic(modelId),
+      [ModelProvider.GOOGLE]: (modelId) => google(modelId),
+      [ModelProvider.FAKE]: (modelId) =>
+        new FakeLanguageModel(modelId, fakeOptions),
+    };
+
+    this.configured = Object.values(ModelRole).reduce(
+      (acc, role) => ({ ...acc, [role]: this.loadRoleConfig(role) }),
+      {} as Record<ModelRole, ModelConfig>,
+    );
+
+    this.allowedOverrides = new Set([
+      ...Object.values(this.configured).map(modelKey),
+      ...(this.configService.get<string>('LLM_ALLOWED_OVERRIDES') ?? '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean),
+    ]);
+    this.fakeOverridesAllowed =
+      this.configService.get<string>('LLM_PROVIDER') === ModelProvider.FAKE;
+  }
+
+  /**
+   * Check per-job overrides before a job is queued. Only the configured
+   * models and those listed in LLM_ALLOWED_OVERRIDES may be chosen, so
+   * callers cannot pick arbitrary paid models, and the fake provider only
+   * when LLM_PROVIDER=fake.
+   * @throws BadRequestException naming the first model that is not allowed
+   */
+  assertOverridesAllowed(overrides?: ModelOverrides): void {
+    for (const key of Object.values(OVERRIDE_KEYS)) {
+      const config = overrides?.[key];
+      if (!config) {
+        continue;
+      }
+      if (
+        config.provider === ModelProvider.FAKE &&
+        !this.fakeOverridesAllowed
+      ) {
+        throw new BadRequestException(
+          'The fake model provider is only available when LLM_PROVIDER=fake',
+        );
+      }
+      if (!this.allowedOverrides.has(modelKey(config))) {
+        throw new BadRequestException(
+          `Model ${modelKey(config)} is not allowed; choose one of: ${[...this.allowedOverrides].join(', ')}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Resolve the model to use for a role
+   * @param role - Pipeline role the model is used for
+   * @param overrides - Per-job overrides taking precedence over configuration
+   * @returns Provider, model id, temperature and the model instance
+   */
+  resolve(role: ModelRole, overrides?: ModelOverrides): ResolvedModel {
+    const config = overrides?.[OVERRIDE_KEYS[role]] ?? this.configured[role];
+    const factory = this.factories[config.provider];
+
+    if (!factory) {
+      throw new BadRequestException(
+        `Unsupported model provider "${config.provider}" for ${role}`,
+      );
+    }
+
+    this.logger.debug(
+      `Resolved ${role} to ${config.provider}:${config.model}${overrides?.[OVERRIDE_KEYS[role]] ? ' (override)' : ''}`,
+    );
+
+    return {
+      ...config,
+      role,
+      instance: factory(config.model),
+    };
+  }
+
+  private loadRoleConfig(role: ModelRole): ModelConfig {
+    const prefix = `LLM_${role.toUpperCase().replace(/-/g, '_')}`;
+    const defaults = DEFAULT_MODELS[role];
+
+    const provider = (this.configService.get<string>(`${prefix}_PROVIDER`) ??
+      this.configService.get<string>('LLM_PROVIDER') ??
+      defaults.provider) as ModelProvider;
+    if (!Object.values(ModelProvider).includes(provider)) {
+      throw new Error(
+        `${prefix}_PROVIDER must be one of: ${Object.values(ModelProvider).join(', ')}`,
+      );
+    }
+
+    const rawTemperature = this.configService.get<string>(
+      `${prefix}_TEMPERATURE`,
+    );
+    const temperature = rawTemperature
+      ? Number(rawTemperature)
+      : defaults.temperature;
+    if (temperature !== undefined && Number.isNaN(temperature)) {
+      throw new Error(`${prefix}_TEMPERATURE must be a number`);
+    }
+
+    const model =
+      this.configService.get<string>(`${prefix}_MODEL`) ??
+      this.defaultModelId(role, provider);
+    if (!model) {
+      throw new Error(`${prefix}_MODEL is required for provider ${provider}`);
+    }
+
+    return { provider, model, temperature };
+  }
+
+  private defaultModelId(
+    role: ModelRole,
+    provider: ModelProvider,
+  ): string | undefined {
+    if (provider === ModelProvider.FAKE) {
+      // Fake models use the model id as their fixture name
+      return role;
+    }
+
+    const defaults = DEFAULT_MODELS[role];
+    return provider === defaults.provider ? defaults.model : undefined;
+  }
+}
+
+function modelKey({ provider, model }: ModelConfig): string {
+  return `${provider}:${model}`;
+}
@@ -0,0 +1,102 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { generateObject, generateText } from 'ai';
+import { FakeLanguageModel } from './fake-language-model';
+import { Rubric, RubricSchema } from '../../evaluations/schemas/rubric.schema';
+import { generateEvaluationSchema } from '../../evaluations/schemas/evaluation.schema';
+import { OverallSummarySchema } from '../../evaluations/schemas/overall-evaluation.schema';
+
+const rubric: Rubric = {
+  criteria: ['technical_skills', 'experience_level'].map((name) => ({
+    name,
+    displayName: name,
+    weight: 50,
+    description: `Evaluates ${name}`,
+    scoringGuide: {
+      '1': 'poor',
+      '2': 'weak',
+      '3': 'fair',
+      '4': 'good',
+      '5': 'excellent',
+    },
+  })),
+};
+
+describe('FakeLanguageModel', () => {
+  let fixturesDir: string;
+
+  beforeEach(() => {
+    fixturesDir = mkdtempSync(join(tmpdir(), 'fake-llm-'));
+  });
+
+  afterEach(() => {
+    rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('returns the same output for the same seed and prompt', async () => {
+    const generate = (seed: number) =>
+      generateObject({
+        model: new FakeLanguageModel('cv-scoring', { seed }),
+        schema: generateEvaluationSchema(rubric),
+        prompt: 'Score this CV',
+      }).then((result) => result.object);
+
+    expect(await generate(7)).toEqual(await generate(7));
+    expect(await generate(7)).not.toEqual(await generate(8));
+  });
+
+  it('varies the output with the prompt', async () => {
+    const model = new FakeLanguageModel('summary', { seed: 1 });
+    const first = await generateText({ model, prompt: 'First candidate' });
+    const second = await generateText({ model, prompt: 'Second candidate' });
+
+    expect(first.text).not.toEqual(second.text);
+  });
+
+  it('replays fixtures named after the model id', async () => {
+    const fixture = { summary: 'x'.repeat(120) };
+    writeFileSync(join(fixturesDir, 'summary.json'), JSON.stringify(fixture));
+    writeFileSync(join(fixturesDir, 'summary.txt'), 'Recorded summary.');
+    const model = new FakeLanguageModel('summary', { seed: 1, fixturesDir });
+
+    const object = await generateObject({
+      model,
+      schema: OverallSummarySchema,
+      prompt: 'Summarize',
+    });
+    const text = await generateText({ model, prompt: 'Summarize' });
+
+    expect(object.object).toEqual(fixture);
+    expect(text.text).toBe('Recorded summary.');
+  });
+
+  it('samples values that satisfy the evaluation schemas', async () => {
+    const model = new FakeLanguageModel('any', { seed: 42, fixturesDir });
+
+    const extracted = await generateObject({
+      model,
+      schema: RubricSchema,
+      prompt: 'Extract the rubric',
+    });
+    const evaluation = await generateObject({
+      model,
+      schema: generateEvaluationSchema(rubric),
+      prompt: 'Score this CV',
+    });
+    const summary = await generateObject({
+      model,
+      schema: OverallSummarySchema,
+      prompt: 'Summarize',
+    });
+
+    expect(RubricSchema.safeParse(extracted.object).success).toBe(true);
+    expect(
+      extracted.object.criteria.reduce((sum, c) => sum + c.weight, 0),
+    ).toBe(100);
+    expect(
+      generateEvaluationSchema(rubric).safeParse(evaluation.object).success,
+    ).toBe(true);
+    expect(OverallSummarySchema.safeParse(summary.object).success).toBe(true);
+  });
+});
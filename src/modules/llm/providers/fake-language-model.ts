@@ -0,0 +1,262 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import {
+  JSONSchema7,
+  JSONSchema7Definition,
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+} from '@ai-sdk/provider';
+
+export interface FakeModelOptions {
+  seed: number;
+  fixturesDir?: string;
+}
+
+const WORDS = [
+  'candidate',
+  'demonstrates',
+  'solid',
+  'experience',
+  'with',
+  'backend',
+  'services',
+  'and',
+  'clear',
+  'ownership',
+  'of',
+  'delivery',
+  'the',
+  'report',
+  'covers',
+  'requirements',
+  'testing',
+  'design',
+  'trade-offs',
+  'reasonable',
+  'depth',
+  'across',
+  'projects',
+  'evidence',
+];
+
+/**
+ * Offline stand-in for a real language model.
+ *
+ * Object generation replays `<fixturesDir>/<modelId>.json` when present and
+ * otherwise samples a schema-valid value from the requested JSON schema.
+ * Text generation replays `<modelId>.txt` or returns generated prose.
+ * Output is seeded by the configured seed, model id and prompt, so identical
+ * calls always return identical results.
+ */
+export class FakeLanguageModel implements LanguageModelV2 {
+  readonly specificationVersion = 'v2';
+  readonly provider = 'fake';
+  readonly supportedUrls = {};
+
+  constructor(
+    readonly modelId: string,
+    private readonly options: FakeModelOptions,
+  ) {}
+
+  doGenerate(options: LanguageModelV2CallOptions) {
+    const random = createRandom(
+      `${this.options.seed}:${this.modelId}:${JSON.stringify(options.prompt)}`,
+    );
+
+    const text =
+      options.responseFormat?.type === 'json'
+        ? (this.readFixture('json') ??
+          JSON.stringify(
+            sampleSchema(
+              options.responseFormat.schema ?? { type: 'object' },
+              random,
+            ),
+          ))
+        : (this.readFixture('txt') ?? generateSentences(4, random));
+
+    return Promise.resolve({
+      content: [{ type: 'text' as const, text }],
+      finishReason: 'stop' as const,
+      usage: {
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+      },
+      warnings: [],
+    });
+  }
+
+  doStream(): never {
+    throw new Error('Streaming is not supported by the fake model provider');
+  }
+
+  private readFixture(extension: 'json' | 'txt'): string | undefined {
+    if (!this.options.fixturesDir) {
+      return undefined;
+    }
+
+    const path = join(this.options.fixturesDir, `${this.modelId}.${extension}`);
+    return existsSync(path) ? readFileSync(path, 'utf-8') : undefined;
+  }
+}
+
+type Random = () => number;
+
+function createRandom(seed: string): Random {
+  let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+
+  // mulberry32
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomInt(min: number, max: number, random: Random): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function generateWords(minLength: number, random: Random): string {
+  const words: string[] = [];
+  let length = 0;
+  do {
+    const word = WORDS[randomInt(0, WORDS.length - 1, random)];
+    words.push(word);
+    length += word.length + 1;
+  } while (length <= minLength);
+  return words.join(' ');
+}
+
+function generateSentences(count: number, random: Random): string {
+  return Array.from({ length: count }, () => {
+    const sentence = generateWords(randomInt(40, 90, random), random);
+    return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`;
+  }).join(' ');
+}
+
+function sampleSchema(
+  definition: JSONSchema7Definition,
+  random: Random,
+  root: JSONSchema7 = definition as JSONSchema7,
+): unknown {
+  if (typeof definition === 'boolean') {
+    return null;
+  }
+
+  const schema = resolveRef(definition, root);
+
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (schema.enum?.length) {
+    return schema.enum[randomInt(0, schema.enum.length - 1, random)];
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants?.length) {
+    return sampleSchema(variants[0], random, root);
+  }
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t) => t !== 'null')
+    : schema.type;
+
+  switch (type) {
+    case 'object':
+      return sampleObject(schema, random, root);
+    case 'array':
+      return sampleArray(schema, random, root);
+    case 'string': {
+      const text = generateWords(schema.minLength ?? 20, random);
+      return schema.maxLength ? text.slice(0, schema.maxLength).trim() : text;
+    }
+    case 'integer':
+      return randomInt(
+        Math.ceil(schema.minimum ?? 0),
+        Math.floor(schema.maximum ?? 100),
+        random,
+      );
+    case 'number': {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? 1;
+      return Math.round((min + random() * (max - min)) * 100) / 100;
+    }
+    case 'boolean':
+      return random() >= 0.5;
+    default:
+      return null;
+  }
+}
+
+function sampleObject(
+  schema: JSONSchema7,
+  random: Random,
+  root: JSONSchema7,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(schema.properties ?? {}).map(([key, property]) => [
+      key,
+      sampleSchema(property, random, root),
+    ]),
+  );
+}
+
+function sampleArray(
+  schema: JSONSchema7,
+  random: Random,
+  root: JSONSchema7,
+): unknown[] {
+  const minItems = Math.max(schema.minItems ?? 1, 1);
+  const maxItems = Math.min(schema.maxItems ?? minItems + 2, minItems + 2);
+  const items = Array.from(
+    { length: randomInt(minItems, maxItems, random) },
+    () =>
+      sampleSchema(
+        (Array.isArray(schema.items) ? schema.items[0] : schema.items) ?? {},
+        random,
+        root,
+      ),
+  );
+
+  return balanceWeights(items);
+}
+
+/**
+ * Rubric criteria carry percentage weights that must add up to 100, so
+ * sampled items with a numeric `weight` are spread evenly across 100.
+ */
+function balanceWeights(items: unknown[]): unknown[] {
+  const weighted = items.filter(
+    (item): item is { weight: number } =>
+      typeof item === 'object' &&
+      item !== null &&
+      typeof (item as { weight?: unknown }).weight === 'number',
+  );
+  if (weighted.length !== items.length || weighted.length === 0) {
+    return items;
+  }
+
+  const share = Math.floor(100 / weighted.length);
+  weighted.forEach((item, index) => {
+    item.weight = index === 0 ? 100 - share * (weighted.length - 1) : share;
+  });
+  return items;
+}
+
+function resolveRef(schema: JSONSchema7, root: JSONSchema7): JSONSchema7 {
+  if (!schema.$ref?.startsWith('#/')) {
+    return schema;
+  }
+
+  const target = schema.$ref
+    .slice(2)
+    .split('/')
+    .reduce<unknown>(
+      (node, segment) => (node as Record<string, unknown>)?.[segment],
+      root,
+    );
+  return (target as JSONSchema7) ?? {};
+}
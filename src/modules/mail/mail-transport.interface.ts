@@ -0,0 +1,27 @@
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+export enum MailTransportType {
+  SMTP = 'smtp',
+  FILE = 'file',
+  CONSOLE = 'console',
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivery of outgoing email
+ */
+export interface MailTransport {
+  readonly type: MailTransportType;
+
+  /**
+   * Deliver a message
+   * @param message - Sender, recipient, subject and plain-text body
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,46 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  MAIL_TRANSPORT,
+  MailTransport,
+  MailTransportType,
+} from './mail-transport.interface';
+import { SmtpMailTransport } from './transports/smtp-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+import { ConsoleMailTransport } from './transports/console-mail.transport';
+import { MailService } from './mail.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (configService: ConfigService): MailTransport => {
+        // The console transport logs reset and verification links, so
+        // production has to choose a transport explicitly
+        const transport =
+          configService.get<MailTransportType>('MAIL_TRANSPORT') ||
+          (configService.get<string>('NODE_ENV') === 'production'
+            ? undefined
+            : MailTransportType.CONSOLE);
+
+        switch (transport) {
+          case MailTransportType.SMTP:
+            return new SmtpMailTransport(configService);
+          case MailTransportType.FILE:
+            return new FileMailTransport(configService);
+          case MailTransportType.CONSOLE:
+            return new ConsoleMailTransport();
+          default:
+            throw new Error(
+              `MAIL_TRANSPORT must be one of: ${Object.values(MailTransportType).join(', ')}`,
+            );
+        }
+      },
+      inject: [ConfigService],
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
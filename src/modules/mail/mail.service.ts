@@ -0,0 +1,87 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from './mail-transport.interface';
+import type { MailTransport } from './mail-transport.interface';
+
+export interface MailRecipient {
+  email: string;
+  name: string;
+}
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly from: string;
+  private readonly appUrl: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {
+    this.from = this.configService.get<string>(
+      'MAIL_FROM',
+      'CV Evaluation <no-reply@localhost>',
+    );
+    this.appUrl = this.configService
+      .get<string>('APP_URL', 'http://localhost:3000')
+      .replace(/\/$/, '');
+  }
+
+  async sendEmailVerification(
+    recipient: MailRecipient,
+    token: string,
+  ): Promise<void> {
+    await this.send(
+      recipient,
+      'Verify your email address',
+      [
+        `Hi ${recipient.name},`,
+        '',
+        'Confirm your email address by opening this link:',
+        `${this.appUrl}/verify-email?token=${encodeURIComponent(token)}`,
+        '',
+        'The link is valid for 24 hours.',
+      ].join('\n'),
+    );
+  }
+
+  async sendPasswordReset(
+    recipient: MailRecipient,
+    token: string,
+  ): Promise<void> {
+    await this.send(
+      recipient,
+      'Reset your password',
+      [
+        `Hi ${recipient.name},`,
+        '',
+        'Choose a new password by opening this link:',
+        `${this.appUrl}/reset-password?token=${encodeURIComponent(token)}`,
+        '',
+        'The link is valid for 1 hour and can be used once. If you did not ask to reset your password, ignore this email.',
+      ].join('\n'),
+    );
+  }
+
+  private async send(
+    recipient: MailRecipient,
+    subject: string,
+    text: string,
+  ): Promise<void> {
+    try {
+      await this.transport.send({
+        from: this.from,
+        to: recipient.email,
+        subject,
+        text,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send "${subject}" to ${recipient.email} with ${this.transport.type} transport`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
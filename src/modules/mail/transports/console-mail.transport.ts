@@ -0,0 +1,21 @@
+import { Logger } from '@nestjs/common';
+import {
+  MailMessage,
+  MailTransport,
+  MailTransportType,
+} from '../mail-transport.interface';
+
+/**
+ * Logs messages instead of sending them, for local development
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly type = MailTransportType.CONSOLE;
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `Mail to ${message.to}: ${message.subject}\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,41 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  MailMessage,
+  MailTransport,
+  MailTransportType,
+} from '../mail-transport.interface';
+
+/**
+ * Writes each message as a JSON file to MAIL_FILE_DIR, so tests and local
+ * setups can read the links that would have been emailed.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly type = MailTransportType.FILE;
+  private readonly logger = new Logger(FileMailTransport.name);
+  private readonly directory: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.directory = this.configService.get<string>(
+      'MAIL_FILE_DIR',
+      'tmp/mail',
+    );
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const path = join(
+      this.directory,
+      `${Date.now()}-${crypto.randomUUID()}.json`,
+    );
+    await writeFile(
+      path,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    );
+
+    this.logger.log(`Wrote mail to ${message.to} to ${path}`);
+  }
+}
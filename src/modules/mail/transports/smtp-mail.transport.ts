@@ -0,0 +1,239 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { connect as connectTcp, Socket } from 'net';
+import { hostname } from 'os';
+import { connect as connectTls } from 'tls';
+import {
+  MailMessage,
+  MailTransport,
+  MailTransportType,
+} from '../mail-transport.interface';
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Sends mail through an SMTP relay. Connections use implicit TLS when
+ * SMTP_SECURE is true and upgrade with STARTTLS when the server offers it.
+ * Credentials are only ever sent over TLS.
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly type = MailTransportType.SMTP;
+  private readonly logger = new Logger(SmtpMailTransport.name);
+  private readonly host: string;
+  private readonly port: number;
+  private readonly secure: boolean;
+  private readonly user?: string;
+  private readonly password?: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.host = this.configService.getOrThrow<string>('SMTP_HOST');
+    this.secure = this.configService.get<string>('SMTP_SECURE') === 'true';
+    this.port = Number(
+      this.configService.get<string>('SMTP_PORT') || (this.secure ? 465 : 587),
+    );
+    this.user = this.configService.get<string>('SMTP_USER');
+    this.password = this.configService.get<string>('SMTP_PASSWORD');
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const session = await SmtpSession.open(this.host, this.port, this.secure);
+
+    try {
+      await session.expect([220]);
+      let capabilities = await session.ehlo();
+
+      if (!this.secure && capabilities.includes('STARTTLS')) {
+        await session.command('STARTTLS', [220]);
+        await session.upgrade(this.host);
+        capabilities = await session.ehlo();
+      } else if (!this.secure && this.user) {
+        throw new Error(
+          `SMTP server ${this.host} does not offer STARTTLS, refusing to send credentials in cleartext`,
+        );
+      }
+
+      if (this.user) {
+        const credentials = Buffer.from(
+          `\0${this.user}\0${this.password ?? ''}`,
+        ).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${this.address(message.from)}>`, [250]);
+      await session.command(`RCPT TO:<${message.to}>`, [250, 251]);
+      await session.command('DATA', [354]);
+      await session.command(`${this.format(message)}\r\n.`, [250]);
+      await session.command('QUIT', [221]).catch(() => undefined);
+
+      this.logger.log(`Sent mail to ${message.to} via ${this.host}`);
+    } finally {
+      session.close();
+    }
+  }
+
+  /** Render the message with a base64 body, which needs no dot-stuffing */
+  private format(message: MailMessage): string {
+    const domain = this.address(message.from).split('@')[1] ?? hostname();
+    const body =
+      Buffer.from(message.text)
+        .toString('base64')
+        .match(/.{1,76}/g)
+        ?.join('\r\n') ?? '';
+
+    return [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${this.encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      body,
+    ].join('\r\n');
+  }
+
+  private encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value)
+      ? value
+      : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+  }
+
+  /** Bare address of `Name <address>` */
+  private address(value: string): string {
+    return /<([^>]+)>/.exec(value)?.[1] ?? value;
+  }
+}
+
+/**
+ * One SMTP conversation. Replies are queued as they arrive and read in
+ * order, one per command.
+ */
+class SmtpSession {
+  private static readonly TIMEOUT_MS = 30000;
+  private buffer = '';
+  private lines: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  private waiting?: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  };
+  private error?: Error;
+
+  private constructor(private socket: Socket) {
+    this.attach();
+  }
+
+  static open(host: string, port: number, secure: boolean) {
+    return new Promise<SmtpSession>((resolve, reject) => {
+      const socket = secure
+        ? connectTls({ host, port, servername: host })
+        : connectTcp({ host, port });
+
+      socket.once('error', reject);
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpSession(socket));
+      });
+    });
+  }
+
+  async ehlo(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${hostname()}`, [250]);
+    return reply.lines.map((line) => line.slice(4).toUpperCase());
+  }
+
+  async command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  async expect(codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(
+        `SMTP server replied ${reply.code}: ${reply.lines.join(' ')}`,
+      );
+    }
+    return reply;
+  }
+
+  upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners();
+
+    return new Promise((resolve, reject) => {
+      const socket = connectTls({ socket: this.socket, servername: host });
+      socket.once('error', reject);
+      socket.once('secureConnect', () => {
+        socket.off('error', reject);
+        this.socket = socket;
+        this.attach();
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(): void {
+    this.socket.setTimeout(SmtpSession.TIMEOUT_MS, () =>
+      this.socket.destroy(new Error('SMTP connection timed out')),
+    );
+    this.socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    this.socket.on('error', (error) => this.fail(error));
+    this.socket.on('close', () =>
+      this.fail(new Error('SMTP connection closed')),
+    );
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer += chunk.toString('utf8');
+
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line);
+
+      // "250-" continues a multi-line reply, "250 " ends it
+      if (line.charAt(3) !== '-') {
+        this.replies.push({
+          code: Number(line.slice(0, 3)),
+          lines: this.lines,
+        });
+        this.lines = [];
+      }
+    }
+
+    if (this.waiting && this.replies.length > 0) {
+      this.waiting.resolve(this.replies.shift()!);
+      this.waiting = undefined;
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private fail(error: Error): void {
+    this.error ??= error;
+    this.waiting?.reject(error);
+    this.waiting = undefined;
+  }
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsEnum } from 'class-validator';
+import { OrgRole } from 'generated/prisma';
+
+export class AddMemberDto {
+  @ApiProperty({
+    description: 'Email of a registered user',
+    example: 'recruiter@example.com',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'Role in the organization',
+    enum: OrgRole,
+    example: OrgRole.RECRUITER,
+  })
+  @IsEnum(OrgRole)
+  role: OrgRole;
+}
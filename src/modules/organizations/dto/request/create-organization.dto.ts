@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateOrganizationDto {
+  @ApiProperty({
+    description: 'Name of the organization',
+    example: 'Acme Hiring',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { OrgRole } from 'generated/prisma';
+
+export class UpdateMemberDto {
+  @ApiProperty({
+    description: 'New role in the organization',
+    enum: OrgRole,
+    example: OrgRole.VIEWER,
+  })
+  @IsEnum(OrgRole)
+  role: OrgRole;
+}
@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OrgRole } from 'generated/prisma';
+
+export class OrganizationResponseDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'Acme Hiring' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Your role in the organization',
+    enum: OrgRole,
+    example: OrgRole.ADMIN,
+  })
+  role: OrgRole;
+
+  @ApiProperty({ example: '2025-11-16T10:30:00.000Z' })
+  createdAt: Date;
+}
+
+export class OrganizationListResponseDto {
+  @ApiProperty({ type: [OrganizationResponseDto] })
+  organizations: OrganizationResponseDto[];
+}
+
+export class MemberResponseDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440001' })
+  userId: string;
+
+  @ApiProperty({ example: 'recruiter@example.com' })
+  email: string;
+
+  @ApiProperty({ example: 'Jane Doe' })
+  name: string;
+
+  @ApiProperty({ enum: OrgRole, example: OrgRole.RECRUITER })
+  role: OrgRole;
+
+  @ApiProperty({ example: '2025-11-16T10:30:00.000Z' })
+  joinedAt: Date;
+}
+
+export class MemberListResponseDto {
+  @ApiProperty({ type: [MemberResponseDto] })
+  members: MemberResponseDto[];
+}
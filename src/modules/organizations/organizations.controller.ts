@@ -0,0 +1,189 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { OrganizationsService } from './organizations.service';
+import { CreateOrganizationDto } from './dto/request/create-organization.dto';
+import { AddMemberDto } from './dto/request/add-member.dto';
+import { UpdateMemberDto } from './dto/request/update-member.dto';
+import {
+  MemberListResponseDto,
+  MemberResponseDto,
+  OrganizationListResponseDto,
+  OrganizationResponseDto,
+} from './dto/response/organization-response.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('organizations')
+@ApiBearerAuth()
+@ApiTags('organizations')
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create Organization',
+    description: 'Create an organization. You become its first admin.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Organization created successfully',
+    type: OrganizationResponseDto,
+  })
+  createOrganization(
+    @CurrentUser('id') userId: string,
+    @Body() request: CreateOrganizationDto,
+  ): Promise<OrganizationResponseDto> {
+    return this.organizationsService.createOrganization(userId, request);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List Organizations',
+    description: 'Organizations you belong to, with your role in each.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Organizations retrieved successfully',
+    type: OrganizationListResponseDto,
+  })
+  listOrganizations(
+    @CurrentUser('id') userId: string,
+  ): Promise<OrganizationListResponseDto> {
+    return this.organizationsService.listOrganizations(userId);
+  }
+
+  @Get(':id/members')
+  @ApiOperation({
+    summary: 'List Members',
+    description: 'Members of an organization you belong to.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Members retrieved successfully',
+    type: MemberListResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Organization not found',
+  })
+  listMembers(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<MemberListResponseDto> {
+    return this.organizationsService.listMembers(id, userId);
+  }
+
+  @Post(':id/members')
+  @ApiOperation({
+    summary: 'Add Member',
+    description: 'Add a registered user to the organization. Admins only.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Member added successfully',
+    type: MemberResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Requires the admin role',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Organization or user not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'User is already a member',
+  })
+  addMember(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() request: AddMemberDto,
+  ): Promise<MemberResponseDto> {
+    return this.organizationsService.addMember(id, userId, request);
+  }
+
+  @Patch(':id/members/:userId')
+  @ApiOperation({
+    summary: 'Change Member Role',
+    description: 'Change the role of a member. Admins only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Member updated successfully',
+    type: MemberResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Requires the admin role',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Organization or member not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The last admin cannot be demoted',
+  })
+  updateMember(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) memberId: string,
+    @Body() request: UpdateMemberDto,
+  ): Promise<MemberResponseDto> {
+    return this.organizationsService.updateMember(
+      id,
+      userId,
+      memberId,
+      request,
+    );
+  }
+
+  @Delete(':id/members/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remove Member',
+    description: 'Remove a member from the organization. Admins only.',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Member removed successfully',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Requires the admin role',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Organization or member not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The last admin cannot be removed',
+  })
+  async removeMember(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) memberId: string,
+  ): Promise<void> {
+    await this.organizationsService.removeMember(id, userId, memberId);
+  }
+}
@@ -0,0 +1,228 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Membership, OrgRole, User } from 'generated/prisma';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CreateOrganizationDto } from './dto/request/create-organization.dto';
+import { AddMemberDto } from './dto/request/add-member.dto';
+import { UpdateMemberDto } from './dto/request/update-member.dto';
+import {
+  MemberListResponseDto,
+  MemberResponseDto,
+  OrganizationListResponseDto,
+  OrganizationResponseDto,
+} from './dto/response/organization-response.dto';
+
+@Injectable()
+export class OrganizationsService {
+  private readonly logger = new Logger(OrganizationsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Create an organization with the caller as its first admin */
+  async createOrganization(
+    userId: string,
+    request: CreateOrganizationDto,
+  ): Promise<OrganizationResponseDto> {
+    const organization = await this.prisma.organization.create({
+      data: {
+        name: request.name.trim(),
+        memberships: { create: { userId, role: OrgRole.ADMIN } },
+      },
+    });
+
+    this.logger.log(`User ${userId} created organization ${organization.id}`);
+
+    return {
+      id: organization.id,
+      name: organization.name,
+      role: OrgRole.ADMIN,
+      createdAt: organization.createdAt,
+    };
+  }
+
+  async listOrganizations(
+    userId: string,
+  ): Promise<OrganizationListResponseDto> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { userId },
+      include: { organization: true },
+      orderBy: { organization: { name: 'asc' } },
+    });
+
+    return {
+      organizations: memberships.map((membership) => ({
+        id: membership.organization.id,
+        name: membership.organization.name,
+        role: membership.role,
+        createdAt: membership.organization.createdAt,
+      })),
+    };
+  }
+
+  async listMembers(
+    organizationId: string,
+    userId: string,
+  ): Promise<MemberListResponseDto> {
+    await this.requireMembership(organizationId, userId);
+
+    const memberships = await this.prisma.membership.findMany({
+      where: { organizationId },
+      include: { user: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      members: memberships.map((membership) => this.toMember(membership)),
+    };
+  }
+
+  async addMember(
+    organizationId: string,
+    userId: string,
+    request: AddMemberDto,
+  ): Promise<MemberResponseDto> {
+    await this.requireMembership(organizationId, userId, OrgRole.ADMIN);
+
+    const user = await this.prisma.user.findUnique({
+      where: { email: request.email },
+    });
+    if (!user) {
+      throw new NotFoundException(
+        `No user registered with email ${request.email}`,
+      );
+    }
+
+    const existing = await this.prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId: user.id } },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `${request.email} is already a member of this organization`,
+      );
+    }
+
+    const membership = await this.prisma.membership.create({
+      data: { organizationId, userId: user.id, role: request.role },
+      include: { user: true },
+    });
+
+    this.logger.log(
+      `Added user ${user.id} to organization ${organizationId} as ${request.role}`,
+    );
+
+    return this.toMember(membership);
+  }
+
+  async updateMember(
+    organizationId: string,
+    userId: string,
+    memberId: string,
+    request: UpdateMemberDto,
+  ): Promise<MemberResponseDto> {
+    await this.requireMembership(organizationId, userId, OrgRole.ADMIN);
+    const member = await this.findMemberOrThrow(organizationId, memberId);
+
+    if (request.role !== OrgRole.ADMIN) {
+      await this.ensureOtherAdmin(member);
+    }
+
+    const membership = await this.prisma.membership.update({
+      where: { id: member.id },
+      data: { role: request.role },
+      include: { user: true },
+    });
+
+    return this.toMember(membership);
+  }
+
+  async removeMember(
+    organizationId: string,
+    userId: string,
+    memberId: string,
+  ): Promise<void> {
+    await this.requireMembership(organizationId, userId, OrgRole.ADMIN);
+    const member = await this.findMemberOrThrow(organizationId, memberId);
+
+    await this.ensureOtherAdmin(member);
+    await this.prisma.membership.delete({ where: { id: member.id } });
+
+    this.logger.log(
+      `Removed user ${memberId} from organization ${organizationId}`,
+    );
+  }
+
+  /**
+   * Organizations the caller does not belong to are reported as not found so
+   * their IDs cannot be probed.
+   */
+  private async requireMembership(
+    organizationId: string,
+    userId: string,
+    role?: OrgRole,
+  ): Promise<Membership> {
+    const membership = await this.prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+
+    if (!membership) {
+      throw new NotFoundException(
+        `Organization with ID ${organizationId} not found`,
+      );
+    }
+    if (role && membership.role !== role) {
+      throw new ForbiddenException(
+        `This action requires the organization role: ${role}`,
+      );
+    }
+
+    return membership;
+  }
+
+  private async findMemberOrThrow(
+    organizationId: string,
+    memberId: string,
+  ): Promise<Membership> {
+    const member = await this.prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId: memberId } },
+    });
+
+    if (!member) {
+      throw new NotFoundException(
+        `User ${memberId} is not a member of this organization`,
+      );
+    }
+
+    return member;
+  }
+
+  /** An organization must keep at least one admin */
+  private async ensureOtherAdmin(member: Membership): Promise<void> {
+    if (member.role !== OrgRole.ADMIN) {
+      return;
+    }
+
+    const admins = await this.prisma.membership.count({
+      where: { organizationId: member.organizationId, role: OrgRole.ADMIN },
+    });
+    if (admins <= 1) {
+      throw new ConflictException(
+        'The last admin of an organization cannot be demoted or removed',
+      );
+    }
+  }
+
+  private toMember(membership: Membership & { user: User }): MemberResponseDto {
+    return {
+      userId: membership.userId,
+      email: membership.user.email,
+      name: membership.user.name,
+      role: membership.role,
+      joinedAt: membership.createdAt,
+    };
+  }
+}
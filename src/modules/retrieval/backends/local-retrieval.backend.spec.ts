@@ -0,0 +1,124 @@
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LocalRetrievalBackend } from './local-retrieval.backend';
+
+jest.mock('src/common/utils/pdf.util', () => ({
+  extractPdfText: ({ data }: { data: Buffer }) =>
+    Promise.resolve(data.toString()),
+}));
+
+interface StoredDocument {
+  id: string;
+  documentType: string;
+  organizationId: string | null;
+  embeddingModel: string | null;
+  chunks: { text: string }[];
+}
+
+type OwnerFilter = { organizationId: string | null };
+
+/** In-memory stand-in for the retrieval tables */
+function fakePrisma() {
+  const documents: StoredDocument[] = [];
+
+  return {
+    retrievalDocument: {
+      create: jest.fn(
+        ({
+          data,
+        }: {
+          data: Omit<StoredDocument, 'id' | 'chunks'> & {
+            chunks: { create: { text: string }[] };
+          };
+        }) => {
+          const document = {
+            ...data,
+            id: `doc-${documents.length + 1}`,
+            organizationId: data.organizationId ?? null,
+            chunks: data.chunks.create,
+          };
+          documents.push(document);
+          return Promise.resolve(document);
+        },
+      ),
+    },
+    retrievalChunk: {
+      findMany: jest.fn(
+        ({
+          where,
+        }: {
+          where: { document: { documentType: string; OR: OwnerFilter[] } };
+        }) =>
+          Promise.resolve(
+            documents
+              .filter(
+                (document) =>
+                  document.documentType === where.document.documentType &&
+                  where.document.OR.some(
+                    ({ organizationId }) =>
+                      document.organizationId === organizationId,
+                  ),
+              )
+              .flatMap((document) =>
+                document.chunks.map((chunk) => ({
+                  documentId: document.id,
+                  text: chunk.text,
+                  embedding: [],
+                  document: { embeddingModel: document.embeddingModel },
+                })),
+              ),
+          ),
+      ),
+    },
+  };
+}
+
+describe('LocalRetrievalBackend', () => {
+  let backend: LocalRetrievalBackend;
+
+  const index = (text: string, organizationId?: string) =>
+    backend.indexDocument({
+      buffer: Buffer.from(text),
+      filename: 'job-description.pdf',
+      mimetype: 'application/pdf',
+      documentType: 'job_description',
+      organizationId,
+    });
+
+  const retrieve = (organizationId?: string) =>
+    backend.retrieve({
+      documentType: 'job_description',
+      organizationId,
+      query: 'backend engineer job description',
+      topK: 5,
+    });
+
+  beforeEach(async () => {
+    backend = new LocalRetrievalBackend(
+      fakePrisma() as unknown as PrismaService,
+      { get: () => undefined } as unknown as ConfigService,
+    );
+
+    await index('Platform backend engineer job description');
+    await index('Org A backend engineer job description', 'org-a');
+  });
+
+  it("never returns another organization's documents", async () => {
+    const texts = (await retrieve('org-b')).map((chunk) => chunk.text);
+
+    expect(texts).toEqual(['Platform backend engineer job description']);
+  });
+
+  it('returns platform documents only without an organization', async () => {
+    const texts = (await retrieve()).map((chunk) => chunk.text);
+
+    expect(texts).toEqual(['Platform backend engineer job description']);
+  });
+
+  it('returns the caller organization documents with platform ones', async () => {
+    const texts = (await retrieve('org-a')).map((chunk) => chunk.text);
+
+    expect(texts).toHaveLength(2);
+    expect(texts).toContain('Org A backend engineer job description');
+  });
+});
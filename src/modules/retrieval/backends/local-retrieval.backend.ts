@@ -0,0 +1,144 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { openai } from '@ai-sdk/openai';
+import { embed, embedMany } from 'ai';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { extractPdfText } from 'src/common/utils/pdf.util';
+import {
+  IndexDocumentParams,
+  IndexedDocument,
+  RetrievalBackend,
+  RetrievalBackendType,
+  RetrieveParams,
+  RetrievedChunk,
+} from '../retrieval-backend.interface';
+import { bm25Scores, chunkText, cosineSimilarity } from '../retrieval.util';
+
+/**
+ * Retrieval backed by our own Postgres database.
+ *
+ * Chunks are ranked by embedding similarity when LOCAL_RETRIEVAL_EMBEDDING_MODEL
+ * is set and the stored chunks were embedded with that model, and by BM25
+ * otherwise.
+ */
+export class LocalRetrievalBackend implements RetrievalBackend {
+  readonly type = RetrievalBackendType.LOCAL;
+  private readonly logger = new Logger(LocalRetrievalBackend.name);
+  private readonly embeddingModel?: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.embeddingModel = this.configService.get<string>(
+      'LOCAL_RETRIEVAL_EMBEDDING_MODEL',
+    );
+  }
+
+  async indexDocument(params: IndexDocumentParams): Promise<IndexedDocument> {
+    if (params.mimetype !== 'application/pdf') {
+      throw new BadRequestException('File must be a PDF');
+    }
+
+    const text = await extractPdfText({ data: params.buffer });
+    const chunks = chunkText(text);
+    if (chunks.length === 0) {
+      throw new BadRequestException(
+        'PDF file appears to be empty or contains no extractable text',
+      );
+    }
+
+    const embeddings = this.embeddingModel
+      ? (
+          await embedMany({
+            model: openai.textEmbeddingModel(this.embeddingModel),
+            values: chunks,
+          })
+        ).embeddings
+      : undefined;
+
+    const document = await this.prisma.retrievalDocument.create({
+      data: {
+        filename: params.filename,
+        documentType: params.documentType,
+        organizationId: params.organizationId,
+        metadata: params.metadata,
+        embeddingModel: embeddings ? this.embeddingModel : null,
+        chunks: {
+          create: chunks.map((chunk, index) => ({
+            index,
+            text: chunk,
+            embedding: embeddings?.[index] ?? [],
+          })),
+        },
+      },
+    });
+
+    this.logger.log(
+      `Indexed ${params.filename} into ${chunks.length} chunks (Doc ID: ${document.id})`,
+    );
+
+    return { id: document.id };
+  }
+
+  async retrieve(params: RetrieveParams): Promise<RetrievedChunk[]> {
+    const chunks = await this.prisma.retrievalChunk.findMany({
+      where: {
+        document: {
+          documentType: params.documentType,
+          OR: [
+            { organizationId: null },
+            ...(params.organizationId
+              ? [{ organizationId: params.organizationId }]
+              : []),
+          ],
+        },
+      },
+      include: { document: { select: { embeddingModel: true } } },
+    });
+
+    if (chunks.length === 0) {
+      return [];
+    }
+
+    const embeddingModel = chunks.every(
+      (chunk) => chunk.document.embeddingModel === this.embeddingModel,
+    )
+      ? this.embeddingModel
+      : undefined;
+
+    let scores: number[];
+    if (embeddingModel) {
+      const { embedding } = await embed({
+        model: openai.textEmbeddingModel(embeddingModel),
+        value: params.query,
+      });
+      scores = chunks.map((chunk) =>
+        cosineSimilarity(embedding, chunk.embedding),
+      );
+    } else {
+      scores = bm25Scores(
+        params.query,
+        chunks.map((chunk) => chunk.text),
+      );
+    }
+
+    this.logger.debug(
+      `Ranked ${chunks.length} ${params.documentType} chunks using ${embeddingModel ? 'embeddings' : 'BM25'}`,
+    );
+
+    return chunks
+      .map((chunk, index) => ({
+        documentId: chunk.documentId,
+        text: chunk.text,
+        score: scores[index],
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, params.topK);
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    await this.prisma.retrievalDocument.deleteMany({ where: { id } });
+    this.logger.log(`Deleted indexed document ${id}`);
+  }
+}
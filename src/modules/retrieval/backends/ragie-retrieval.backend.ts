@@ -0,0 +1,127 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { fetchWithRetry } from 'src/common/utils/fetch.util';
+import {
+  IndexDocumentParams,
+  IndexedDocument,
+  RetrievalBackend,
+  RetrievalBackendType,
+  RetrieveParams,
+  RetrievedChunk,
+} from '../retrieval-backend.interface';
+import { RagieRetrievalResponse } from '../dto/ragie/ragie-retreival-response.dto';
+import { RagieUploadResponse } from '../dto/ragie/ragie-upload-response.dto';
+
+/** Ragie metadata cannot be null, so platform documents carry this owner */
+const PLATFORM_OWNER = 'platform';
+
+export class RagieRetrievalBackend implements RetrievalBackend {
+  readonly type = RetrievalBackendType.RAGIE;
+  private readonly logger = new Logger(RagieRetrievalBackend.name);
+  private readonly ragieApiKey: string;
+  private readonly ragieApiUrl = 'https://api.ragie.ai';
+
+  constructor(private readonly configService: ConfigService) {
+    this.ragieApiKey = this.configService.getOrThrow<string>('RAGIE_API_KEY');
+  }
+
+  async indexDocument(params: IndexDocumentParams): Promise<IndexedDocument> {
+    const formData = new FormData();
+    const uint8Array = new Uint8Array(params.buffer);
+    const blob = new Blob([uint8Array], { type: params.mimetype });
+    formData.append('file', blob, params.filename);
+
+    const ragieMetadata = {
+      documentType: params.documentType,
+      organizationId: params.organizationId ?? PLATFORM_OWNER,
+      ...params.metadata,
+      uploadedAt: new Date().toISOString(),
+    };
+    formData.append('metadata', JSON.stringify(ragieMetadata));
+
+    const response = await fetch(`${this.ragieApiUrl}/documents`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.ragieApiKey}`,
+      },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      this.logger.error(
+        `Ragie API error for ${params.filename}: ${response.status} - ${errorText}`,
+      );
+      throw new Error(`Ragie API error: ${response.status}`);
+    }
+
+    const result = (await response.json()) as RagieUploadResponse;
+    this.logger.log(
+      `Document uploaded to Ragie: ${params.filename} (Ragie ID: ${result.id})`,
+    );
+
+    return { id: result.id };
+  }
+
+  async retrieve(params: RetrieveParams): Promise<RetrievedChunk[]> {
+    const response = await fetchWithRetry(`${this.ragieApiUrl}/retrievals`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.ragieApiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        query: params.query,
+        rerank: true,
+        filter: {
+          documentType: params.documentType,
+          organizationId: {
+            $in: [
+              PLATFORM_OWNER,
+              ...(params.organizationId ? [params.organizationId] : []),
+            ],
+          },
+        },
+        top_k: params.topK,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      this.logger.error(
+        `Ragie retrieval error for ${params.documentType}: ${response.status} - ${errorText}`,
+      );
+      throw new Error(`Ragie retrieval error: ${response.status}`);
+    }
+
+    const result = (await response.json()) as RagieRetrievalResponse;
+
+    return (result.scored_chunks ?? []).map((chunk) => ({
+      documentId: chunk.document_id,
+      text: chunk.text,
+      score: chunk.score,
+    }));
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    const response = await fetchWithRetry(
+      `${this.ragieApiUrl}/documents/${id}`,
+      {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${this.ragieApiKey}`,
+        },
+      },
+    );
+
+    if (!response.ok && response.status !== 404) {
+      const errorText = await response.text();
+      this.logger.error(
+        `Ragie delete error for ${id}: ${response.status} - ${errorText}`,
+      );
+      throw new Error(`Ragie delete error: ${response.status}`);
+    }
+
+    this.logger.log(`Document deleted from Ragie: ${id}`);
+  }
+}
@@ -0,0 +1,62 @@
+export const RETRIEVAL_BACKEND = Symbol('RETRIEVAL_BACKEND');
+
+export enum RetrievalBackendType {
+  RAGIE = 'ragie',
+  LOCAL = 'local',
+}
+
+export interface IndexDocumentParams {
+  buffer: Buffer;
+  filename: string;
+  mimetype: string;
+  documentType: string;
+  /** Owning organization; platform documents have none */
+  organizationId?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface IndexedDocument {
+  id: string;
+}
+
+export interface RetrieveParams {
+  documentType: string;
+  /** Caller's organization, searched along with platform documents */
+  organizationId?: string;
+  query: string;
+  topK: number;
+}
+
+export interface RetrievedChunk {
+  documentId: string;
+  text: string;
+  score: number;
+}
+
+/**
+ * Storage and search for system documents used as evaluation context
+ */
+export interface RetrievalBackend {
+  readonly type: RetrievalBackendType;
+
+  /**
+   * Index a document so its content can be retrieved
+   * @param params - File content and metadata
+   * @returns Backend-specific document identifier
+   */
+  indexDocument(params: IndexDocumentParams): Promise<IndexedDocument>;
+
+  /**
+   * Retrieve the chunks most relevant to a query
+   * @param params - Document type and organization filter, query and number
+   * of chunks
+   * @returns Chunks ordered by descending score
+   */
+  retrieve(params: RetrieveParams): Promise<RetrievedChunk[]>;
+
+  /**
+   * Remove a document and its chunks from the index
+   * @param id - Identifier returned by indexDocument
+   */
+  deleteDocument(id: string): Promise<void>;
+}
@@ -0,0 +1,43 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  RETRIEVAL_BACKEND,
+  RetrievalBackend,
+  RetrievalBackendType,
+} from './retrieval-backend.interface';
+import { RagieRetrievalBackend } from './backends/ragie-retrieval.backend';
+import { LocalRetrievalBackend } from './backends/local-retrieval.backend';
+
+@Module({
+  imports: [ConfigModule, PrismaModule],
+  providers: [
+    {
+      provide: RETRIEVAL_BACKEND,
+      useFactory: (
+        configService: ConfigService,
+        prisma: PrismaService,
+      ): RetrievalBackend => {
+        const backend = configService.get<RetrievalBackendType>(
+          'RETRIEVAL_BACKEND',
+          RetrievalBackendType.RAGIE,
+        );
+
+        switch (backend) {
+          case RetrievalBackendType.RAGIE:
+            return new RagieRetrievalBackend(configService);
+          case RetrievalBackendType.LOCAL:
+            return new LocalRetrievalBackend(prisma, configService);
+          default:
+            throw new Error(
+              `RETRIEVAL_BACKEND must be one of: ${Object.values(RetrievalBackendType).join(', ')}`,
+            );
+        }
+      },
+      inject: [ConfigService, PrismaService],
+    },
+  ],
+  exports: [RETRIEVAL_BACKEND],
+})
+export class RetrievalModule {}
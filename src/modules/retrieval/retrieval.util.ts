@@ -0,0 +1,82 @@
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Split text into overlapping word windows
+ * @param text - Text to split
+ * @param size - Number of words per chunk
+ * @param overlap - Number of words shared between consecutive chunks
+ * @returns Chunk texts in document order
+ */
+export function chunkText(text: string, size = 200, overlap = 40): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const chunks: string[] = [];
+  const step = Math.max(size - overlap, 1);
+
+  for (let start = 0; start < words.length; start += step) {
+    chunks.push(words.slice(start, start + size).join(' '));
+    if (start + size >= words.length) {
+      break;
+    }
+  }
+
+  return chunks;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Score documents against a query with Okapi BM25
+ * @param query - Search query
+ * @param documents - Document texts
+ * @returns One score per document, in input order
+ */
+export function bm25Scores(query: string, documents: string[]): number[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const tokenized = documents.map((document) => tokenize(document));
+  const averageLength =
+    tokenized.reduce((sum, tokens) => sum + tokens.length, 0) /
+    Math.max(tokenized.length, 1);
+
+  const documentFrequency = new Map<string, number>();
+  tokenized.forEach((tokens) => {
+    new Set(tokens).forEach((term) =>
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1),
+    );
+  });
+
+  return tokenized.map((tokens) => {
+    const termFrequency = new Map<string, number>();
+    tokens.forEach((term) =>
+      termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1),
+    );
+
+    return queryTerms.reduce((score, term) => {
+      const frequency = termFrequency.get(term) ?? 0;
+      if (frequency === 0) {
+        return score;
+      }
+
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (tokenized.length - df + 0.5) / (df + 0.5));
+      const norm =
+        frequency +
+        BM25_K1 * (1 - BM25_B + BM25_B * (tokens.length / averageLength));
+      return score + idf * ((frequency * (BM25_K1 + 1)) / norm);
+    }, 0);
+  });
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
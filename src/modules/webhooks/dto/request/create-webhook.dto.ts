@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsUrl,
+} from 'class-validator';
+import { IsPublicUrl } from 'src/common/validators/is-public-url.validator';
+import { WebhookEvent } from '../../webhook-event.enum';
+
+export class CreateWebhookDto {
+  @ApiProperty({
+    description: 'URL that receives a POST for every subscribed event',
+    example: 'https://ats.example.com/hooks/cv-evaluation',
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  @IsPublicUrl()
+  url: string;
+
+  @ApiProperty({
+    description: 'Events to deliver. Defaults to all events.',
+    enum: WebhookEvent,
+    isArray: true,
+    required: false,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(WebhookEvent, { each: true })
+  @IsOptional()
+  events?: WebhookEvent[];
+}
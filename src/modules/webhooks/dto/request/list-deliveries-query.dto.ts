@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { WebhookDeliveryStatus } from 'generated/prisma';
+
+export class ListDeliveriesQueryDto {
+  @ApiProperty({
+    description: 'Only return deliveries for this evaluation job',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  jobId?: string;
+
+  @ApiProperty({
+    description: 'Filter by delivery status',
+    enum: WebhookDeliveryStatus,
+    required: false,
+  })
+  @IsEnum(WebhookDeliveryStatus)
+  @IsOptional()
+  status?: WebhookDeliveryStatus;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 20,
+    default: 20,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+
+  @ApiProperty({
+    description: '`nextCursor` from the previous page',
+    example:
+      'WyIyMDI1LTExLTE2VDEwOjMwOjAwLjAwMFoiLCI1NTBlODQwMC1lMjliLTQxZDQtYTcxNi00NDY2NTU0NDAwMDAiXQ',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+}
@@ -0,0 +1,59 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WebhookDeliveryStatus } from 'generated/prisma';
+import { WebhookEvent } from '../../webhook-event.enum';
+
+export class WebhookDeliveryResponseDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440001' })
+  jobId: string;
+
+  @ApiProperty({
+    description: 'Registered webhook, null for a per-job callback URL',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+    nullable: true,
+  })
+  webhookId: string | null;
+
+  @ApiProperty({ example: 'https://ats.example.com/hooks/cv-evaluation' })
+  url: string;
+
+  @ApiProperty({ enum: WebhookEvent })
+  event: string;
+
+  @ApiProperty({ enum: WebhookDeliveryStatus })
+  status: WebhookDeliveryStatus;
+
+  @ApiProperty({ example: 1 })
+  attempts: number;
+
+  @ApiProperty({ example: 200, nullable: true })
+  responseStatus: number | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  error: string | null;
+
+  @ApiProperty({ description: 'JSON body that was sent' })
+  payload: unknown;
+
+  @ApiProperty({ example: '2025-11-16T10:30:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-11-16T10:30:01.000Z', nullable: true })
+  deliveredAt: Date | null;
+}
+
+export class WebhookDeliveryListResponseDto {
+  @ApiProperty({ type: [WebhookDeliveryResponseDto] })
+  deliveries: WebhookDeliveryResponseDto[];
+
+  @ApiProperty({
+    description:
+      'Opaque token to pass as `cursor` for the next page; null on the last page',
+    example:
+      'WyIyMDI1LTExLTE2VDEwOjMwOjAwLjAwMFoiLCI1NTBlODQwMC1lMjliLTQxZDQtYTcxNi00NDY2NTU0NDAwMDAiXQ',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
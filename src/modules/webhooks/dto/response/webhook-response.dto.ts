@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WebhookEvent } from '../../webhook-event.enum';
+
+export class WebhookResponseDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'https://ats.example.com/hooks/cv-evaluation' })
+  url: string;
+
+  @ApiProperty({ enum: WebhookEvent, isArray: true })
+  events: string[];
+
+  @ApiProperty({ example: true })
+  isActive: boolean;
+
+  @ApiProperty({ example: '2025-11-16T10:30:00.000Z' })
+  createdAt: Date;
+}
+
+export class CreatedWebhookResponseDto extends WebhookResponseDto {
+  @ApiProperty({
+    description:
+      'Secret used to sign deliveries. Only returned when the webhook is created.',
+    example: 'whsec_3f9a...',
+  })
+  secret: string;
+}
+
+export class CallbackSecretResponseDto {
+  @ApiProperty({
+    description:
+      'Secret used to sign deliveries to the callbackUrl of your jobs. Only returned when it is created.',
+    example: 'whsec_3f9a...',
+  })
+  secret: string;
+}
+
+export class WebhookListResponseDto {
+  @ApiProperty({ example: 1 })
+  total: number;
+
+  @ApiProperty({ type: [WebhookResponseDto] })
+  webhooks: WebhookResponseDto[];
+}
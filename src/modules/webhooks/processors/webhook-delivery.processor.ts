@@ -0,0 +1,102 @@
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { WebhookDeliveryStatus } from 'generated/prisma';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { isPublicUrl } from 'src/common/utils/network.util';
+import { WebhookDeliveryJobData, WebhooksService } from '../webhooks.service';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+@Processor('webhook-delivery', {
+  concurrency: 5,
+})
+export class WebhookDeliveryProcessor extends WorkerHost {
+  private readonly logger = new Logger(WebhookDeliveryProcessor.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly webhooksService: WebhooksService,
+  ) {
+    super();
+  }
+
+  async process(job: Job<WebhookDeliveryJobData>): Promise<void> {
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id: job.data.deliveryId },
+      include: {
+        webhook: true,
+        job: { select: { user: { select: { callbackSecret: true } } } },
+      },
+    });
+    if (!delivery) {
+      this.logger.warn(`Delivery ${job.data.deliveryId} no longer exists`);
+      return;
+    }
+
+    let responseStatus: number | null = null;
+    try {
+      // Checked again here as DNS may have changed since registration
+      if (!(await isPublicUrl(delivery.url))) {
+        throw new Error('Endpoint does not resolve to a public address');
+      }
+
+      const request = this.webhooksService.signDelivery(delivery);
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+
+      if (!response.ok) {
+        throw new Error(`Endpoint responded with status ${response.status}`);
+      }
+    } catch (error) {
+      await this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          attempts: { increment: 1 },
+          responseStatus,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      throw error;
+    }
+
+    await this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        attempts: { increment: 1 },
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        responseStatus,
+        error: null,
+        deliveredAt: new Date(),
+      },
+    });
+    this.logger.log(
+      `Delivered ${delivery.event} for job ${delivery.jobId} to ${delivery.url}`,
+    );
+  }
+
+  @OnWorkerEvent('failed')
+  async onFailed(job: Job<WebhookDeliveryJobData>, error: Error) {
+    if (job.attemptsMade < (job.opts.attempts ?? 1)) {
+      this.logger.warn(
+        `Delivery ${job.data.deliveryId} attempt ${job.attemptsMade} failed, retrying: ${error.message}`,
+      );
+      return;
+    }
+
+    this.logger.error(
+      `Delivery ${job.data.deliveryId} failed after ${job.attemptsMade} attempts:`,
+      error,
+    );
+    await this.prisma.webhookDelivery.update({
+      where: { id: job.data.deliveryId },
+      data: { status: WebhookDeliveryStatus.FAILED },
+    });
+  }
+}
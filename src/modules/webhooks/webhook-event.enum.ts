@@ -0,0 +1,4 @@
+export enum WebhookEvent {
+  EVALUATION_COMPLETED = 'evaluation.completed',
+  EVALUATION_FAILED = 'evaluation.failed',
+}
@@ -0,0 +1,153 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookDto } from './dto/request/create-webhook.dto';
+import { ListDeliveriesQueryDto } from './dto/request/list-deliveries-query.dto';
+import {
+  CallbackSecretResponseDto,
+  CreatedWebhookResponseDto,
+  WebhookListResponseDto,
+} from './dto/response/webhook-response.dto';
+import {
+  WebhookDeliveryListResponseDto,
+  WebhookDeliveryResponseDto,
+} from './dto/response/webhook-delivery-response.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('webhooks')
+@ApiBearerAuth()
+@ApiTags('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Register Webhook',
+    description:
+      'Register a default webhook that receives every evaluation of the authenticated user. The signing secret is only returned once.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Webhook registered successfully',
+    type: CreatedWebhookResponseDto,
+  })
+  createWebhook(
+    @CurrentUser('id') userId: string,
+    @Body() request: CreateWebhookDto,
+  ): Promise<CreatedWebhookResponseDto> {
+    return this.webhooksService.createWebhook(userId, request);
+  }
+
+  @Post('callback-secret')
+  @ApiOperation({
+    summary: 'Rotate Callback Secret',
+    description:
+      'Create or replace the secret that signs deliveries to the callbackUrl of your jobs. Required before submitting a callbackUrl; the previous secret stops working immediately.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Secret created',
+    type: CallbackSecretResponseDto,
+  })
+  rotateCallbackSecret(
+    @CurrentUser('id') userId: string,
+  ): Promise<CallbackSecretResponseDto> {
+    return this.webhooksService.rotateCallbackSecret(userId);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List Webhooks',
+    description: 'List webhooks registered by the authenticated user.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhooks retrieved successfully',
+    type: WebhookListResponseDto,
+  })
+  listWebhooks(
+    @CurrentUser('id') userId: string,
+  ): Promise<WebhookListResponseDto> {
+    return this.webhooksService.listWebhooks(userId);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete Webhook',
+    description: 'Stop delivering events to a webhook.',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Webhook deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Webhook not found',
+  })
+  async deleteWebhook(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.webhooksService.deleteWebhook(userId, id);
+  }
+
+  @Get('deliveries')
+  @ApiOperation({
+    summary: 'List Webhook Deliveries',
+    description:
+      'Delivery log for evaluations of the authenticated user, newest first.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Deliveries retrieved successfully',
+    type: WebhookDeliveryListResponseDto,
+  })
+  listDeliveries(
+    @CurrentUser('id') userId: string,
+    @Query() query: ListDeliveriesQueryDto,
+  ): Promise<WebhookDeliveryListResponseDto> {
+    return this.webhooksService.listDeliveries(userId, query);
+  }
+
+  @Post('deliveries/:id/replay')
+  @ApiOperation({
+    summary: 'Replay Webhook Delivery',
+    description:
+      'Send the payload of a past delivery again. The replay is logged as a new delivery.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Delivery queued',
+    type: WebhookDeliveryResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Delivery not found',
+  })
+  replayDelivery(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<WebhookDeliveryResponseDto> {
+    return this.webhooksService.replayDelivery(userId, id);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookDeliveryProcessor } from './processors/webhook-delivery.processor';
+
+@Module({
+  imports: [
+    PrismaModule,
+    BullModule.registerQueue({ name: 'webhook-delivery' }),
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDeliveryProcessor],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,338 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { createHmac, randomBytes } from 'crypto';
+import { Prisma, Webhook, WebhookDelivery } from 'generated/prisma';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  cursorDate,
+  decodeCursor,
+  encodeCursor,
+} from 'src/common/utils/cursor.util';
+import { WebhookEvent } from './webhook-event.enum';
+import { CreateWebhookDto } from './dto/request/create-webhook.dto';
+import { ListDeliveriesQueryDto } from './dto/request/list-deliveries-query.dto';
+import {
+  CallbackSecretResponseDto,
+  CreatedWebhookResponseDto,
+  WebhookListResponseDto,
+  WebhookResponseDto,
+} from './dto/response/webhook-response.dto';
+import {
+  WebhookDeliveryListResponseDto,
+  WebhookDeliveryResponseDto,
+} from './dto/response/webhook-delivery-response.dto';
+
+export interface WebhookDeliveryJobData {
+  deliveryId: string;
+}
+
+export interface SignedRequest {
+  body: string;
+  headers: Record<string, string>;
+}
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+  private readonly DELIVERY_OPTIONS = {
+    attempts: 5,
+    backoff: {
+      type: 'exponential',
+      delay: 10000,
+    },
+  };
+
+  constructor(
+    @InjectQueue('webhook-delivery')
+    private readonly deliveryQueue: Queue<WebhookDeliveryJobData>,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  async createWebhook(
+    userId: string,
+    request: CreateWebhookDto,
+  ): Promise<CreatedWebhookResponseDto> {
+    const webhook = await this.prisma.webhook.create({
+      data: {
+        userId,
+        url: request.url,
+        secret: `whsec_${randomBytes(24).toString('hex')}`,
+        events: request.events ?? Object.values(WebhookEvent),
+      },
+    });
+
+    this.logger.log(`Registered webhook ${webhook.id} for user ${userId}`);
+
+    return { ...this.toResponse(webhook), secret: webhook.secret };
+  }
+
+  /**
+   * Create or replace the secret that signs deliveries to the callbackUrl of
+   * the user's jobs. The previous secret stops working immediately.
+   */
+  async rotateCallbackSecret(
+    userId: string,
+  ): Promise<CallbackSecretResponseDto> {
+    const secret = `whsec_${randomBytes(24).toString('hex')}`;
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { callbackSecret: secret },
+    });
+
+    this.logger.log(`Rotated callback signing secret of user ${userId}`);
+
+    return { secret };
+  }
+
+  /**
+   * Refuse a callbackUrl before any job is created when the user has no
+   * secret to sign its deliveries with
+   */
+  async assertCanSignCallbacks(
+    userId: string,
+    callbackUrl: string | undefined,
+  ): Promise<void> {
+    if (!callbackUrl) {
+      return;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { callbackSecret: true },
+    });
+    if (!user?.callbackSecret) {
+      throw new BadRequestException(
+        'Create a callback signing secret with POST /webhooks/callback-secret before using callbackUrl',
+      );
+    }
+  }
+
+  async listWebhooks(userId: string): Promise<WebhookListResponseDto> {
+    const webhooks = await this.prisma.webhook.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      total: webhooks.length,
+      webhooks: webhooks.map((webhook) => this.toResponse(webhook)),
+    };
+  }
+
+  async deleteWebhook(userId: string, id: string): Promise<void> {
+    const { count } = await this.prisma.webhook.deleteMany({
+      where: { id, userId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException(`Webhook with ID ${id} not found`);
+    }
+  }
+
+  /** Page through deliveries newest first, keyed on creation time and ID */
+  async listDeliveries(
+    userId: string,
+    query: ListDeliveriesQueryDto,
+  ): Promise<WebhookDeliveryListResponseDto> {
+    const limit = query.limit ?? 20;
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    const createdAt = cursor && cursorDate(cursor);
+
+    const deliveries = await this.prisma.webhookDelivery.findMany({
+      where: {
+        AND: cursor
+          ? [
+              {
+                OR: [
+                  { createdAt: { lt: createdAt } },
+                  { createdAt, id: { lt: cursor.id } },
+                ],
+              },
+            ]
+          : [],
+        job: { userId },
+        jobId: query.jobId,
+        status: query.status,
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+    });
+
+    const page = deliveries.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      deliveries: page.map((delivery) => this.toDeliveryResponse(delivery)),
+      nextCursor:
+        deliveries.length > limit
+          ? encodeCursor({ value: last.createdAt.toISOString(), id: last.id })
+          : null,
+    };
+  }
+
+  /** Send the payload of a past delivery again as a new delivery */
+  async replayDelivery(
+    userId: string,
+    id: string,
+  ): Promise<WebhookDeliveryResponseDto> {
+    const original = await this.prisma.webhookDelivery.findFirst({
+      where: { id, job: { userId } },
+    });
+
+    if (!original) {
+      throw new NotFoundException(`Webhook delivery with ID ${id} not found`);
+    }
+
+    const [delivery] = await this.enqueue([
+      {
+        jobId: original.jobId,
+        webhookId: original.webhookId,
+        url: original.url,
+        event: original.event,
+        payload: original.payload as Prisma.InputJsonValue,
+      },
+    ]);
+
+    this.logger.log(`Replaying delivery ${id} as ${delivery.id}`);
+
+    return this.toDeliveryResponse(delivery);
+  }
+
+  /**
+   * Queue a delivery of `event` to the job's callback URL and to every active
+   * webhook of the job owner subscribed to it
+   */
+  async dispatchJobEvent(
+    jobId: string,
+    event: WebhookEvent,
+    data: unknown,
+  ): Promise<void> {
+    const job = await this.prisma.job.findUnique({
+      where: { id: jobId },
+      select: { userId: true, callbackUrl: true },
+    });
+    if (!job) {
+      return;
+    }
+
+    const webhooks = await this.prisma.webhook.findMany({
+      where: { userId: job.userId, isActive: true, events: { has: event } },
+    });
+
+    const payload = {
+      event,
+      jobId,
+      occurredAt: new Date().toISOString(),
+      data,
+    } as Prisma.InputJsonValue;
+
+    const deliveries = await this.enqueue([
+      ...(job.callbackUrl
+        ? [{ jobId, webhookId: null, url: job.callbackUrl, event, payload }]
+        : []),
+      ...webhooks.map((webhook) => ({
+        jobId,
+        webhookId: webhook.id,
+        url: webhook.url,
+        event,
+        payload,
+      })),
+    ]);
+
+    if (deliveries.length > 0) {
+      this.logger.log(
+        `Queued ${deliveries.length} ${event} deliveries for job ${jobId}`,
+      );
+    }
+  }
+
+  /**
+   * Serialize a delivery and sign `<timestamp>.<body>` with HMAC-SHA256.
+   *
+   * Callback URLs given per job have no webhook of their own and are signed
+   * with the callback secret of the job owner.
+   */
+  signDelivery(
+    delivery: WebhookDelivery & {
+      webhook: Webhook | null;
+      job: { user: { callbackSecret: string | null } };
+    },
+  ): SignedRequest {
+    const secret = delivery.webhook?.secret ?? delivery.job.user.callbackSecret;
+    if (!secret) {
+      throw new Error(
+        'Job owner has no callback signing secret; the callback URL cannot be signed',
+      );
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    return {
+      body,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signature}`,
+      },
+    };
+  }
+
+  private async enqueue(
+    deliveries: Prisma.WebhookDeliveryUncheckedCreateInput[],
+  ): Promise<WebhookDelivery[]> {
+    const created = await this.prisma.$transaction(
+      deliveries.map((data) => this.prisma.webhookDelivery.create({ data })),
+    );
+
+    await this.deliveryQueue.addBulk(
+      created.map((delivery) => ({
+        name: 'webhook-delivery',
+        data: { deliveryId: delivery.id },
+        opts: this.DELIVERY_OPTIONS,
+      })),
+    );
+
+    return created;
+  }
+
+  private toResponse(webhook: Webhook): WebhookResponseDto {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      events: webhook.events,
+      isActive: webhook.isActive,
+      createdAt: webhook.createdAt,
+    };
+  }
+
+  private toDeliveryResponse(
+    delivery: WebhookDelivery,
+  ): WebhookDeliveryResponseDto {
+    return {
+      id: delivery.id,
+      jobId: delivery.jobId,
+      webhookId: delivery.webhookId,
+      url: delivery.url,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+      payload: delivery.payload,
+      createdAt: delivery.createdAt,
+      deliveredAt: delivery.deliveredAt,
+    };
+  }
+}